@@ -0,0 +1,272 @@
+import crypto from "crypto";
+import { DueDateReference, parseDueDate } from "./dueDates.js";
+
+// Helper to extract action items from markdown content
+export type NoteSectionKind = "agenda" | "notes" | "action_items" | "decisions" | "other";
+
+export interface ParsedActionItem {
+  content: string;
+  assignee: string | null;
+  due_date: string | null;
+  // The due date phrase as written, e.g. "by next Friday"
+  due_phrase: string | null;
+  is_completed: boolean;
+  // Heading the item appeared under, as written; null before the first heading
+  section: string | null;
+  section_kind: NoteSectionKind;
+  // 1-based line in the markdown where the item starts
+  line: number;
+}
+
+// Fellow's standard note sections, matched against heading text
+const SECTION_PATTERNS: [NoteSectionKind, RegExp][] = [
+  ["action_items", /\b(action\s*items?|next\s*steps|to-?\s*dos?|follow[-\s]?ups?|tasks)\b/i],
+  ["decisions", /\bdecisions?\b/i],
+  ["agenda", /\b(agenda|talking\s*points)\b/i],
+  ["notes", /\b(notes|discussion|summary)\b/i],
+];
+
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+// A line that is only bold text (optionally with a trailing colon), which Fellow uses as a heading
+const BOLD_HEADING = /^\s*(?:\*\*|__)([^*_]+?):?(?:\*\*|__)\s*:?\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])(\s+)(.*)$/;
+const CHECKBOX = /^\[([ xX])\]\s+(.*)$/;
+const TASK_PREFIX = /^(?:Action\s*Item|Action|TODO|To-Do|To Do)\s*:\s*(.+)$/i;
+const MENTION_BULLET = /^(@\w+[\w\s]*?)\s*[-:]\s*(.+)$/;
+const FENCE = /^\s*(```|~~~)/;
+// Lines that start an action item of their own, so they never continue the block above
+const ACTION_MARKER = /^(?:(?:Action\s*Item|Action|TODO|To-Do|To Do)\s*:|\[[ xX]\]\s|@\w)/i;
+
+export function classifySection(heading: string): NoteSectionKind {
+  for (const [kind, pattern] of SECTION_PATTERNS) {
+    if (pattern.test(heading)) {
+      return kind;
+    }
+  }
+  return "other";
+}
+
+// Tabs count as four columns, as in CommonMark
+function indentWidth(whitespace: string): number {
+  return whitespace.replace(/\t/g, "    ").length;
+}
+
+interface Block {
+  kind: "list_item" | "paragraph";
+  text: string[];
+  line: number;
+  // Column continuation lines must reach to belong to this block
+  contentIndent: number;
+  section: string | null;
+  sectionKind: NoteSectionKind;
+  // Enclosing list item, for nested lists
+  parent: Block | null;
+}
+
+/**
+ * Extracts action items by walking the note's markdown structure: headings
+ * define sections, list items (bulleted or numbered, at any nesting depth)
+ * and paragraphs are blocks, and indented or lazy continuation lines belong
+ * to the block above them unless they start with an action item marker
+ * ("TODO:", "[ ]", "@name"). A block is an action item when it is a checkbox,
+ * starts with "Action item:"/"TODO:", or sits in an action items section.
+ * Relative due dates are resolved against `reference`, normally the meeting start.
+ */
+export function extractActionItems(content: string, reference?: DueDateReference): ParsedActionItem[] {
+  const lines = content.split(/\r?\n/);
+  const blocks: Block[] = [];
+  // Headings currently in effect, outermost first; a section keeps its kind for deeper sub-headings
+  const headings: { level: number; text: string; kind: NoteSectionKind }[] = [];
+  let current: Block | null = null;
+  // Open list items, outermost first
+  let lists: Block[] = [];
+  let previousBlank = false;
+  let inFence = false;
+
+  const section = () => headings[headings.length - 1] ?? null;
+  const sectionKind = (): NoteSectionKind => {
+    for (let i = headings.length - 1; i >= 0; i--) {
+      if (headings[i].kind !== "other") return headings[i].kind;
+    }
+    return "other";
+  };
+  const startHeading = (level: number, text: string) => {
+    while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+      headings.pop();
+    }
+    headings.push({ level, text, kind: classifySection(text) });
+    current = null;
+    lists = [];
+  };
+
+  lines.forEach((line, index) => {
+    if (FENCE.test(line)) {
+      inFence = !inFence;
+      current = null;
+      lists = [];
+      return;
+    }
+    if (inFence) return;
+
+    if (!line.trim()) {
+      previousBlank = true;
+      return;
+    }
+    const blankBefore = previousBlank;
+    previousBlank = false;
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      startHeading(heading[1].length, heading[2].trim());
+      return;
+    }
+    const boldHeading = line.match(BOLD_HEADING);
+    if (boldHeading) {
+      // Bold pseudo-headings nest below real headings
+      startHeading(7, boldHeading[1].trim());
+      return;
+    }
+
+    const listItem = line.match(LIST_ITEM);
+    if (listItem) {
+      const indent = indentWidth(listItem[1]);
+      while (lists.length > 0 && lists[lists.length - 1].contentIndent > indent) {
+        lists.pop();
+      }
+      current = {
+        kind: "list_item",
+        text: [listItem[4].trim()],
+        line: index + 1,
+        contentIndent: indent + listItem[2].length + listItem[3].length,
+        section: section()?.text ?? null,
+        sectionKind: sectionKind(),
+        parent: lists[lists.length - 1] ?? null,
+      };
+      lists.push(current);
+      blocks.push(current);
+      return;
+    }
+
+    const indent = indentWidth(line.match(/^\s*/)![0]);
+    const block = current as Block | null;
+    // Lazy continuation directly below a block, or an indented paragraph inside a list item
+    const continues = !blankBefore || (block?.kind === "list_item" && indent >= block.contentIndent);
+    if (block && continues && !ACTION_MARKER.test(line.trim())) {
+      block.text.push(line.trim());
+      return;
+    }
+
+    lists = lists.filter((item) => item.contentIndent <= indent);
+    current = {
+      kind: "paragraph",
+      text: [line.trim()],
+      line: index + 1,
+      contentIndent: indent,
+      section: section()?.text ?? null,
+      sectionKind: sectionKind(),
+      parent: null,
+    };
+    blocks.push(current);
+  });
+
+  const actionItems: ParsedActionItem[] = [];
+  const tasks = new Set<Block>();
+  for (const block of blocks) {
+    const item = toActionItem(block, block.parent !== null && tasks.has(block.parent), reference);
+    if (item) {
+      actionItems.push(item);
+      tasks.add(block);
+    }
+  }
+  return actionItems;
+}
+
+// `underTask`: plain sub-bullets of an action item are its details, not separate items
+function toActionItem(block: Block, underTask: boolean, reference: DueDateReference | undefined): ParsedActionItem | null {
+  const text = block.text.join(" ").replace(/\s+/g, " ").trim();
+  const source = { section: block.section, section_kind: block.sectionKind, line: block.line };
+
+  const checkbox = block.kind === "list_item" ? text.match(CHECKBOX) : null;
+  if (checkbox) {
+    const itemContent = checkbox[2].trim();
+    const { assignee, dueDate, duePhrase } = parseAssigneeAndDueDate(itemContent, reference);
+    return {
+      content: itemContent,
+      assignee,
+      due_date: dueDate,
+      due_phrase: duePhrase,
+      is_completed: checkbox[1].toLowerCase() === "x",
+      ...source,
+    };
+  }
+
+  const prefixed = text.match(TASK_PREFIX);
+  if (prefixed) {
+    const itemContent = prefixed[1].trim();
+    const { assignee, dueDate, duePhrase } = parseAssigneeAndDueDate(itemContent, reference);
+    return { content: itemContent, assignee, due_date: dueDate, due_phrase: duePhrase, is_completed: false, ...source };
+  }
+
+  // Anything else only counts inside an action items section
+  if (block.sectionKind !== "action_items" || underTask) {
+    return null;
+  }
+
+  // "- @name - text" bullets name their assignee up front
+  const mention = block.kind === "list_item" ? text.match(MENTION_BULLET) : null;
+  if (mention) {
+    const assignee = mention[1].replace("@", "").trim();
+    const itemContent = mention[2].trim();
+    const { dueDate, duePhrase } = parseAssigneeAndDueDate(itemContent, reference);
+    return {
+      content: `@${assignee}: ${itemContent}`,
+      assignee,
+      due_date: dueDate,
+      due_phrase: duePhrase,
+      is_completed: false,
+      ...source,
+    };
+  }
+
+  const { assignee, dueDate, duePhrase } = parseAssigneeAndDueDate(text, reference);
+  return { content: text, assignee, due_date: dueDate, due_phrase: duePhrase, is_completed: false, ...source };
+}
+
+export function parseAssigneeAndDueDate(
+  text: string,
+  reference?: DueDateReference
+): { assignee: string | null; dueDate: string | null; duePhrase: string | null } {
+  let assignee: string | null = null;
+
+  // Extract @mentions for assignee
+  const mentionMatch = text.match(/@(\w+)/);
+  if (mentionMatch) {
+    assignee = mentionMatch[1];
+  }
+
+  // Explicit, named and relative due dates, resolved against the meeting date
+  const due = parseDueDate(text, reference);
+
+  return { assignee, dueDate: due?.date ?? null, duePhrase: due?.phrase ?? null };
+}
+
+// Text used to recognise the same action item across syncs, ignoring case, spacing and trailing punctuation
+export function normalizeActionItemText(content: string): string {
+  return content
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/[\s.,;!]+$/, "")
+    .trim();
+}
+
+/**
+ * Stable identity for an action item: its note, normalized text, and which
+ * occurrence of that text in the note it is (for repeated items).
+ */
+export function actionItemFingerprint(noteId: string, content: string, occurrence: number): string {
+  return crypto
+    .createHash("sha256")
+    .update(`${noteId}\n${normalizeActionItemText(content)}\n${occurrence}`)
+    .digest("hex")
+    .slice(0, 32);
+}
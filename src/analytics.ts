@@ -0,0 +1,155 @@
+// Talk-time and participation analytics over diarized transcript segments
+
+export interface TimedSegment {
+  speaker: string;
+  start_time: number;
+  end_time: number;
+}
+
+export interface SpeakerStats {
+  speaker: string;
+  talk_time: number;
+  share: number;
+  turns: number;
+  longest_turn: number;
+  interruptions: number;
+  interrupted: number;
+  meetings: number;
+}
+
+export interface SpeakingStats {
+  meetings: number;
+  duration: number;
+  total_talk_time: number;
+  speakers: SpeakerStats[];
+}
+
+// Overlaps shorter than this are treated as diarization jitter, not interruptions
+const INTERRUPTION_TOLERANCE_SECONDS = 0.5;
+
+function emptySpeaker(speaker: string): SpeakerStats {
+  return {
+    speaker,
+    talk_time: 0,
+    share: 0,
+    turns: 0,
+    longest_turn: 0,
+    interruptions: 0,
+    interrupted: 0,
+    meetings: 1,
+  };
+}
+
+function withShares(speakers: SpeakerStats[], totalTalkTime: number): SpeakerStats[] {
+  return speakers
+    .map((s) => ({ ...s, share: totalTalkTime > 0 ? s.talk_time / totalTalkTime : 0 }))
+    .sort((a, b) => b.talk_time - a.talk_time);
+}
+
+/**
+ * Computes per-speaker stats for a single meeting. Consecutive segments by the
+ * same speaker count as one turn; a segment that starts while a different
+ * speaker's segment is still running counts as an interruption.
+ */
+export function computeSpeakingStats(segments: TimedSegment[]): SpeakingStats {
+  const ordered = [...segments].sort((a, b) => a.start_time - b.start_time);
+  const bySpeaker = new Map<string, SpeakerStats>();
+  const get = (speaker: string): SpeakerStats => {
+    if (!bySpeaker.has(speaker)) {
+      bySpeaker.set(speaker, emptySpeaker(speaker));
+    }
+    return bySpeaker.get(speaker)!;
+  };
+
+  let totalTalkTime = 0;
+  let turnSpeaker: string | null = null;
+  let turnStart = 0;
+  let turnEnd = 0;
+  // Latest-ending segment so far, used to detect overlap
+  let active: TimedSegment | null = null;
+
+  const closeTurn = () => {
+    if (turnSpeaker === null) return;
+    const stats = get(turnSpeaker);
+    stats.turns++;
+    stats.longest_turn = Math.max(stats.longest_turn, turnEnd - turnStart);
+  };
+
+  for (const segment of ordered) {
+    const duration = Math.max(0, segment.end_time - segment.start_time);
+    const stats = get(segment.speaker);
+    stats.talk_time += duration;
+    totalTalkTime += duration;
+
+    if (
+      active &&
+      active.speaker !== segment.speaker &&
+      active.end_time - segment.start_time > INTERRUPTION_TOLERANCE_SECONDS
+    ) {
+      stats.interruptions++;
+      get(active.speaker).interrupted++;
+    }
+    if (!active || segment.end_time > active.end_time) {
+      active = segment;
+    }
+
+    if (segment.speaker === turnSpeaker) {
+      turnEnd = Math.max(turnEnd, segment.end_time);
+    } else {
+      closeTurn();
+      turnSpeaker = segment.speaker;
+      turnStart = segment.start_time;
+      turnEnd = segment.end_time;
+    }
+  }
+  closeTurn();
+
+  const duration =
+    ordered.length > 0
+      ? Math.max(...ordered.map((s) => s.end_time)) - ordered[0].start_time
+      : 0;
+
+  return {
+    meetings: ordered.length > 0 ? 1 : 0,
+    duration,
+    total_talk_time: totalTalkTime,
+    speakers: withShares([...bySpeaker.values()], totalTalkTime),
+  };
+}
+
+/**
+ * Combines per-meeting stats into totals across meetings. Shares are
+ * recomputed against the combined talk time.
+ */
+export function combineSpeakingStats(all: SpeakingStats[]): SpeakingStats {
+  const bySpeaker = new Map<string, SpeakerStats>();
+  let duration = 0;
+  let totalTalkTime = 0;
+  let meetings = 0;
+
+  for (const stats of all) {
+    duration += stats.duration;
+    totalTalkTime += stats.total_talk_time;
+    meetings += stats.meetings;
+    for (const s of stats.speakers) {
+      const existing = bySpeaker.get(s.speaker);
+      if (!existing) {
+        bySpeaker.set(s.speaker, { ...s });
+        continue;
+      }
+      existing.talk_time += s.talk_time;
+      existing.turns += s.turns;
+      existing.longest_turn = Math.max(existing.longest_turn, s.longest_turn);
+      existing.interruptions += s.interruptions;
+      existing.interrupted += s.interrupted;
+      existing.meetings += s.meetings;
+    }
+  }
+
+  return {
+    meetings,
+    duration,
+    total_talk_time: totalTalkTime,
+    speakers: withShares([...bySpeaker.values()], totalTalkTime),
+  };
+}
@@ -0,0 +1,360 @@
+// Types for Fellow API responses
+export interface SpeechSegment {
+  speaker: string;
+  text: string;
+  start_time: number;
+  end_time: number;
+}
+
+export interface Transcript {
+  language_code: string;
+  speech_segments: SpeechSegment[];
+}
+
+export interface Recording {
+  id: string;
+  title: string;
+  note_id: string;
+  created_at: string;
+  updated_at: string;
+  event_start?: string;
+  event_end?: string;
+  recording_start?: string;
+  recording_end?: string;
+  event_guid?: string;
+  call_url?: string;
+  transcript?: Transcript;
+}
+
+export interface Note {
+  id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+  event_start?: string;
+  event_end?: string;
+  event_guid?: string;
+  call_url?: string;
+  recording_ids?: string[];
+  content_markdown?: string;
+  event_attendees?: string[];
+}
+
+export interface PageInfo {
+  cursor: string | null;
+  page_size: number;
+}
+
+export interface RecordingsResponse {
+  recordings: {
+    page_info: PageInfo;
+    data: Recording[];
+  };
+}
+
+export interface NotesResponse {
+  notes: {
+    page_info: PageInfo;
+    data: Note[];
+  };
+}
+
+// Longest response body kept on a FellowApiError
+const MAX_ERROR_BODY_LENGTH = 500;
+
+/**
+ * Error raised for any failed Fellow API call. `status` is null when no
+ * response was received (timeout or network failure).
+ */
+export class FellowApiError extends Error {
+  readonly status: number | null;
+  readonly method: string;
+  readonly endpoint: string;
+  readonly body: string | null;
+  readonly attempts: number;
+
+  constructor(options: {
+    status: number | null;
+    method: string;
+    endpoint: string;
+    body: string | null;
+    attempts: number;
+    reason?: string;
+  }) {
+    const what = options.status !== null ? `HTTP ${options.status}` : options.reason ?? "request failed";
+    const detail = options.body ? `: ${options.body}` : "";
+    const tries = options.attempts > 1 ? ` after ${options.attempts} attempts` : "";
+    super(`Fellow API error (${what}) on ${options.method} ${options.endpoint}${tries}${detail}`);
+    this.name = "FellowApiError";
+    this.status = options.status;
+    this.method = options.method;
+    this.endpoint = options.endpoint;
+    this.body = options.body;
+    this.attempts = options.attempts;
+  }
+
+  get isNotFound(): boolean {
+    return this.status === 404;
+  }
+
+  // Rate limits, server errors and failures without a response are worth retrying
+  get isRetryable(): boolean {
+    return this.status === null || this.status === 429 || this.status >= 500;
+  }
+}
+
+// Raised when the caller's abort signal fires during a request or the wait before a retry
+export class FellowRequestCancelledError extends Error {
+  constructor(method: string, endpoint: string) {
+    super(`Fellow API request cancelled on ${method} ${endpoint}`);
+    this.name = "FellowRequestCancelledError";
+  }
+}
+
+export interface FellowClientOptions {
+  // Per-attempt timeout in milliseconds
+  timeoutMs?: number;
+  // Retries after the first attempt for retryable failures
+  maxRetries?: number;
+  // Base delay for exponential backoff in milliseconds
+  baseDelayMs?: number;
+  // Upper bound on any single wait, including Retry-After
+  maxDelayMs?: number;
+}
+
+const DEFAULT_CLIENT_OPTIONS: Required<FellowClientOptions> = {
+  timeoutMs: 30_000,
+  maxRetries: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 60_000,
+};
+
+// Resolves after `ms`, or as soon as `signal` aborts
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
+
+/**
+ * Parses a Retry-After header given either as delta-seconds or an HTTP date.
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Fellow API Client
+export class FellowClient {
+  private apiKey: string;
+  private baseUrl: string;
+  private options: Required<FellowClientOptions>;
+
+  constructor(apiKey: string, subdomain: string, options: FellowClientOptions = {}) {
+    this.apiKey = apiKey;
+    this.baseUrl = `https://${subdomain}.fellow.app/api/v1`;
+    this.options = {
+      timeoutMs: options.timeoutMs ?? DEFAULT_CLIENT_OPTIONS.timeoutMs,
+      maxRetries: options.maxRetries ?? DEFAULT_CLIENT_OPTIONS.maxRetries,
+      baseDelayMs: options.baseDelayMs ?? DEFAULT_CLIENT_OPTIONS.baseDelayMs,
+      maxDelayMs: options.maxDelayMs ?? DEFAULT_CLIENT_OPTIONS.maxDelayMs,
+    };
+  }
+
+  // Exponential backoff with full jitter, never shorter than the server's Retry-After
+  private retryDelay(attempt: number, retryAfterMs: number | null): number {
+    const backoff = Math.random() * this.options.baseDelayMs * 2 ** attempt;
+    return Math.min(this.options.maxDelayMs, Math.max(backoff, retryAfterMs ?? 0));
+  }
+
+  /**
+   * Sends a request, retrying retryable failures with backoff. `signal`
+   * aborts the attempt in flight and any wait before the next one.
+   */
+  private async request<T>(
+    method: string,
+    endpoint: string,
+    body?: unknown,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const url = `${this.baseUrl}${endpoint}`;
+
+    for (let attempt = 0; ; attempt++) {
+      if (signal?.aborted) {
+        throw new FellowRequestCancelledError(method, endpoint);
+      }
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), this.options.timeoutMs);
+      const cancel = () => controller.abort();
+      signal?.addEventListener("abort", cancel, { once: true });
+      const options: RequestInit = {
+        method,
+        headers: {
+          "X-API-KEY": this.apiKey,
+          "Content-Type": "application/json",
+        },
+        signal: controller.signal,
+      };
+
+      if (body) {
+        options.body = JSON.stringify(body);
+      }
+
+      let error: FellowApiError;
+      let retryAfterMs: number | null = null;
+
+      try {
+        const response = await fetch(url, options);
+
+        if (response.ok) {
+          return (await response.json()) as T;
+        }
+
+        const errorText = await response.text();
+        retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+        error = new FellowApiError({
+          status: response.status,
+          method,
+          endpoint,
+          body: errorText.slice(0, MAX_ERROR_BODY_LENGTH) || null,
+          attempts: attempt + 1,
+        });
+      } catch (err) {
+        if (signal?.aborted) {
+          throw new FellowRequestCancelledError(method, endpoint);
+        }
+        const timedOut = controller.signal.aborted;
+        error = new FellowApiError({
+          status: null,
+          method,
+          endpoint,
+          body: null,
+          attempts: attempt + 1,
+          reason: timedOut
+            ? `timed out after ${this.options.timeoutMs}ms`
+            : err instanceof Error
+              ? err.message
+              : String(err),
+        });
+      } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", cancel);
+      }
+
+      if (!error.isRetryable || attempt >= this.options.maxRetries) {
+        throw error;
+      }
+
+      await sleep(this.retryDelay(attempt, retryAfterMs), signal);
+    }
+  }
+
+  async listRecordings(options: {
+    title?: string;
+    created_at_start?: string;
+    created_at_end?: string;
+    updated_at_start?: string;
+    updated_at_end?: string;
+    event_guid?: string;
+    channel_id?: string;
+    include_transcript?: boolean;
+    cursor?: string;
+    page_size?: number;
+    signal?: AbortSignal;
+  }): Promise<RecordingsResponse> {
+    const body: Record<string, unknown> = {};
+
+    // Build filters
+    const filters: Record<string, string> = {};
+    if (options.title) filters.title = options.title;
+    if (options.created_at_start) filters.created_at_start = options.created_at_start;
+    if (options.created_at_end) filters.created_at_end = options.created_at_end;
+    if (options.updated_at_start) filters.updated_at_start = options.updated_at_start;
+    if (options.updated_at_end) filters.updated_at_end = options.updated_at_end;
+    if (options.event_guid) filters.event_guid = options.event_guid;
+    if (options.channel_id) filters.channel_id = options.channel_id;
+
+    if (Object.keys(filters).length > 0) {
+      body.filters = filters;
+    }
+
+    // Build include
+    if (options.include_transcript) {
+      body.include = { transcript: true };
+    }
+
+    // Build pagination
+    body.pagination = {
+      cursor: options.cursor ?? null,
+      page_size: options.page_size ?? 20,
+    };
+
+    return this.request<RecordingsResponse>("POST", "/recordings", body, options.signal);
+  }
+
+  async getRecording(recordingId: string, signal?: AbortSignal): Promise<Recording> {
+    return this.request<Recording>("GET", `/recording/${recordingId}`, undefined, signal);
+  }
+
+  async listNotes(options: {
+    title?: string;
+    created_at_start?: string;
+    created_at_end?: string;
+    updated_at_start?: string;
+    updated_at_end?: string;
+    event_guid?: string;
+    channel_id?: string;
+    include_content?: boolean;
+    include_attendees?: boolean;
+    cursor?: string;
+    page_size?: number;
+    signal?: AbortSignal;
+  }): Promise<NotesResponse> {
+    const body: Record<string, unknown> = {};
+
+    // Build filters
+    const filters: Record<string, string> = {};
+    if (options.title) filters.title = options.title;
+    if (options.created_at_start) filters.created_at_start = options.created_at_start;
+    if (options.created_at_end) filters.created_at_end = options.created_at_end;
+    if (options.updated_at_start) filters.updated_at_start = options.updated_at_start;
+    if (options.updated_at_end) filters.updated_at_end = options.updated_at_end;
+    if (options.event_guid) filters.event_guid = options.event_guid;
+    if (options.channel_id) filters.channel_id = options.channel_id;
+
+    if (Object.keys(filters).length > 0) {
+      body.filters = filters;
+    }
+
+    // Build include
+    const include: Record<string, boolean> = {};
+    if (options.include_content) include.content_markdown = true;
+    if (options.include_attendees) include.event_attendees = true;
+    if (Object.keys(include).length > 0) {
+      body.include = include;
+    }
+
+    // Build pagination
+    body.pagination = {
+      cursor: options.cursor ?? null,
+      page_size: options.page_size ?? 20,
+    };
+
+    return this.request<NotesResponse>("POST", "/notes", body, options.signal);
+  }
+
+  async getNote(noteId: string, signal?: AbortSignal): Promise<Note> {
+    return this.request<Note>("GET", `/note/${noteId}`, undefined, signal);
+  }
+}
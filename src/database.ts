@@ -2,6 +2,13 @@ import Database from "better-sqlite3";
 import path from "path";
 import os from "os";
 import fs from "fs";
+import { actionItemFingerprint, normalizeActionItemText } from "./actionItems.js";
+import { shiftDate } from "./dueDates.js";
+import { EncryptionKeyError, EncryptionRecord, FieldCipher, isEncrypted, normalizeEmail } from "./encryption.js";
+import { emailDisplayName } from "./identities.js";
+import { getSchemaVersion, migrate, SCHEMA_VERSION, SchemaVersionError } from "./migrations.js";
+import { ScopeListFilters, SyncScope } from "./scope.js";
+import { highlightHits, matchText, parseSearchQuery } from "./textSearch.js";
 
 export interface StoredNote {
   id: string;
@@ -14,6 +21,8 @@ export interface StoredNote {
   call_url: string | null;
   content_markdown: string | null;
   synced_at: string;
+  // Set when a reconciliation pass no longer finds the note in Fellow
+  deleted_at: string | null;
 }
 
 export interface StoredRecording {
@@ -30,16 +39,51 @@ export interface StoredRecording {
   call_url: string | null;
   transcript_json: string | null;
   synced_at: string;
+  // Set when a reconciliation pass no longer finds the recording in Fellow
+  deleted_at: string | null;
 }
 
 export interface StoredActionItem {
   id: number;
+  // Stays the same across syncs while the item is recognisably the same, even if completed or reworded
+  fingerprint: string;
   note_id: string;
   content: string;
   assignee: string | null;
+  // Normalized YYYY-MM-DD, resolved against the meeting date for relative phrases
   due_date: string | null;
+  // The due date as written in the note, e.g. "by Friday"
+  due_phrase: string | null;
   is_completed: boolean;
+  // Order within the note
+  position: number;
+  // When the item was first seen
   created_at: string;
+  completed_at: string | null;
+  // Set when the item disappeared from the note; removed items are kept for history
+  removed_at: string | null;
+  // Heading the item was found under and its 1-based line in the note's markdown
+  section: string | null;
+  source_line: number | null;
+}
+
+export type ActionItemInput = Pick<
+  StoredActionItem,
+  "content" | "assignee" | "due_date" | "due_phrase" | "is_completed" | "section" | "source_line"
+>;
+
+export type ActionItemEvent = "first_seen" | "completed" | "reopened" | "reworded" | "removed" | "restored";
+
+export interface ActionItemHistoryEntry {
+  fingerprint: string;
+  note_id: string;
+  event: ActionItemEvent;
+  at: string;
+  content: string;
+  assignee: string | null;
+  note_title: string;
+  created_at: string;
+  completed_at: string | null;
 }
 
 export interface StoredParticipant {
@@ -48,93 +92,636 @@ export interface StoredParticipant {
   email: string;
 }
 
+// The ways a person shows up in meetings: @mention handles, display names, transcript speaker labels and emails
+export type AliasKind = "handle" | "name" | "speaker" | "email";
+
+export const ALIAS_KINDS: AliasKind[] = ["handle", "name", "speaker", "email"];
+
+export interface PersonAlias {
+  kind: AliasKind;
+  alias: string;
+  // "auto" aliases are re-derived on every seeding pass; "manual" ones were set with update_identity and are kept
+  source: "auto" | "manual";
+}
+
+export interface Person {
+  id: number;
+  display_name: string | null;
+  aliases: PersonAlias[];
+}
+
+// What a seeding pass worked out about one participant email
+export interface PersonSeed {
+  email: string;
+  display_name: string | null;
+  aliases: { kind: Exclude<AliasKind, "email">; alias: string }[];
+}
+
+export interface StoredTranscriptSegment {
+  id: number;
+  recording_id: string;
+  segment_index: number;
+  speaker: string;
+  start_time: number;
+  end_time: number;
+  text: string;
+}
+
+// Progress of an in-flight sync, persisted after every page so an interrupted run can resume
+export interface SyncCheckpoint {
+  mode: "full" | "incremental";
+  since: string | null;
+  include_transcripts: boolean;
+  started_at: string;
+  phase: "notes" | "recordings";
+  notes_cursor: string | null;
+  recordings_cursor: string | null;
+  // The scope the run started with and the list filters computed from it, so a resumed run pages the same listing
+  scope_key: string;
+  list_filters: ScopeListFilters;
+}
+
+// Which meetings the last completed sync listed, so only rows it covered count as checked at that time
+export interface SyncCoverage {
+  scope: SyncScope | null;
+  list_filters: ScopeListFilters;
+}
+
+// Columns callers supply when writing; sync bookkeeping columns are managed here
+export type NoteInput = Omit<StoredNote, "synced_at" | "deleted_at">;
+export type RecordingInput = Omit<StoredRecording, "synced_at" | "deleted_at">;
+
+// A note plus the rows derived from it, written together by upsertNotesWithDetails.
+// A null list leaves the existing rows for that note untouched.
+export interface NoteWrite {
+  note: NoteInput;
+  action_items: ActionItemInput[] | null;
+  participants: string[] | null;
+}
+
+export interface NoteSearchHit extends StoredNote {
+  rank: number;
+  snippets: string[];
+}
+
+export interface TranscriptSearchHit {
+  recording_id: string;
+  note_id: string | null;
+  recording_title: string;
+  event_start: string | null;
+  segment_index: number;
+  speaker: string;
+  start_time: number;
+  end_time: number;
+  text: string;
+  snippet: string;
+  rank: number;
+}
+
+// Minimal shape of the stored transcript JSON, used to index speech segments
+interface TranscriptJson {
+  speech_segments?: { speaker: string; text: string; start_time: number; end_time: number }[];
+}
+
+// Markers passed to FTS5 highlight(); swapped for markdown bold once snippets are cut
+const HIGHLIGHT_OPEN = "\u0002";
+const HIGHLIGHT_CLOSE = "\u0003";
+const SNIPPET_CONTEXT = 60;
+// Enough for every fixed query; dynamic ones (IN lists, filter combinations) cycle out
+const STATEMENT_CACHE_SIZE = 200;
+
+/**
+ * Cuts up to `max` windows of text around highlighted matches, merging
+ * windows that overlap so each snippet is distinct.
+ */
+function extractSnippets(highlighted: string, max: number): string[] {
+  const windows: { start: number; end: number }[] = [];
+  let pos = highlighted.indexOf(HIGHLIGHT_OPEN);
+  while (pos !== -1 && windows.length < max) {
+    const close = highlighted.indexOf(HIGHLIGHT_CLOSE, pos);
+    const start = Math.max(0, pos - SNIPPET_CONTEXT);
+    const end = Math.min(highlighted.length, (close === -1 ? pos : close) + SNIPPET_CONTEXT);
+    const last = windows[windows.length - 1];
+    if (last && start <= last.end) {
+      last.end = end;
+    } else {
+      windows.push({ start, end });
+    }
+    pos = highlighted.indexOf(HIGHLIGHT_OPEN, end);
+  }
+
+  return windows.map(({ start, end }) => {
+    let snippet = highlighted.substring(start, end);
+    // Drop markers cut in half by the window edges
+    const opens = snippet.split(HIGHLIGHT_OPEN).length - 1;
+    const closes = snippet.split(HIGHLIGHT_CLOSE).length - 1;
+    if (opens > closes) snippet += HIGHLIGHT_CLOSE;
+    if (closes > opens) snippet = HIGHLIGHT_OPEN + snippet;
+    snippet = snippet
+      .replaceAll(HIGHLIGHT_OPEN, "**")
+      .replaceAll(HIGHLIGHT_CLOSE, "**")
+      .replace(/\s+/g, " ")
+      .trim();
+    if (start > 0) snippet = "..." + snippet;
+    if (end < highlighted.length) snippet = snippet + "...";
+    return snippet;
+  });
+}
+
+/**
+ * Turns free text into a safe FTS5 query by quoting every term, used when the
+ * caller's query is not valid FTS5 syntax (e.g. stray quotes or operators).
+ */
+function toLiteralFtsQuery(query: string): string {
+  return query
+    .split(/\s+/)
+    .filter((term) => term.length > 0)
+    .map((term) => `"${term.replace(/"/g, '""')}"`)
+    .join(" ");
+}
+
+const DATA_DIR = path.join(os.homedir(), ".fellow-mcp");
+// Database used before per-workspace files; adopted by the first workspace that opens it
+const LEGACY_DB_PATH = path.join(DATA_DIR, "fellow.db");
+
+/**
+ * Raised when a database already holds data for a different Fellow workspace,
+ * so two subdomains never share one cache.
+ */
+export class WorkspaceMismatchError extends Error {
+  constructor(dbPath: string, expected: string, actual: string) {
+    super(
+      `Database ${dbPath} belongs to Fellow workspace "${actual}", not "${expected}". ` +
+        "Use a different --db-path / FELLOW_DB_PATH for each workspace."
+    );
+    this.name = "WorkspaceMismatchError";
+  }
+}
+
+// Reads the workspace a database was claimed by, without modifying it
+function readWorkspace(dbPath: string): string | null {
+  const db = new Database(dbPath, { readonly: true, fileMustExist: true });
+  try {
+    const table = db.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'sync_status'").get();
+    if (!table) return null;
+    const row = db.prepare("SELECT value FROM sync_status WHERE key = 'workspace'").get() as { value: string } | undefined;
+    return row?.value ?? null;
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Default database for a workspace: `~/.fellow-mcp/<subdomain>.db`, except that
+ * an existing `fellow.db` from before per-workspace files keeps being used by
+ * the workspace that owns it (or by the first one to open it, if unclaimed).
+ */
+export function defaultDatabasePath(subdomain: string): string {
+  const workspacePath = path.join(DATA_DIR, `${subdomain.replace(/[^a-zA-Z0-9_-]/g, "_")}.db`);
+  if (fs.existsSync(workspacePath) || !fs.existsSync(LEGACY_DB_PATH)) {
+    return workspacePath;
+  }
+  const owner = readWorkspace(LEGACY_DB_PATH);
+  return owner === null || owner === subdomain ? LEGACY_DB_PATH : workspacePath;
+}
+
+export interface FellowDatabaseOptions {
+  // Open the file read-only; it must already exist at the current schema version
+  readOnly?: boolean;
+  // Fellow subdomain this cache belongs to; opening another workspace's database fails
+  workspace?: string;
+  // Secret for encrypting sensitive columns; required once a database has been encrypted
+  encryptionKey?: string;
+}
+
+// A segment as stored in the transcript search index
+interface TranscriptIndexRow {
+  id: number;
+  recording_id: string;
+  segment_index: number;
+  speaker: string;
+  text: string;
+  start_time: number;
+  end_time: number;
+}
+
 export class FellowDatabase {
   private db: Database.Database;
+  private dbPath: string;
+  private readOnly: boolean;
+  // Set when sensitive columns are encrypted; values are written in plaintext otherwise
+  private cipher: FieldCipher | null = null;
+  // Prepared statements keyed by SQL text, so hot paths like sync don't re-prepare per row.
+  // Least recently used first, capped at STATEMENT_CACHE_SIZE.
+  private statements = new Map<string, Database.Statement>();
+  // Set when opening upgraded the schema of an existing database
+  private migrated = false;
 
-  constructor(dbPath?: string) {
-    const defaultPath = path.join(os.homedir(), ".fellow-mcp", "fellow.db");
-    const finalPath = dbPath ?? defaultPath;
-    
-    // Ensure directory exists
-    const dir = path.dirname(finalPath);
-    if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true });
-    }
-
-    this.db = new Database(finalPath);
-    this.db.pragma("journal_mode = WAL");
-    this.initSchema();
-  }
-
-  private initSchema(): void {
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS notes (
-        id TEXT PRIMARY KEY,
-        title TEXT NOT NULL,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL,
-        event_start TEXT,
-        event_end TEXT,
-        event_guid TEXT,
-        call_url TEXT,
-        content_markdown TEXT,
-        synced_at TEXT NOT NULL
-      );
+  constructor(dbPath?: string, options: FellowDatabaseOptions = {}) {
+    const finalPath = dbPath ?? LEGACY_DB_PATH;
+    this.dbPath = finalPath;
+    this.readOnly = options.readOnly ?? false;
+    let backupPath: string | null = null;
 
-      CREATE TABLE IF NOT EXISTS recordings (
-        id TEXT PRIMARY KEY,
-        note_id TEXT,
-        title TEXT NOT NULL,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL,
-        event_start TEXT,
-        event_end TEXT,
-        recording_start TEXT,
-        recording_end TEXT,
-        event_guid TEXT,
-        call_url TEXT,
-        transcript_json TEXT,
-        synced_at TEXT NOT NULL,
-        FOREIGN KEY (note_id) REFERENCES notes(id)
-      );
+    if (this.readOnly) {
+      if (!fs.existsSync(finalPath)) {
+        throw new Error(`Database ${finalPath} does not exist; read-only mode needs an existing database`);
+      }
+      this.db = new Database(finalPath, { readonly: true, fileMustExist: true });
+      this.registerFunctions();
+      this.checkSchemaVersion(finalPath);
+    } else {
+      // Ensure directory exists
+      const dir = path.dirname(finalPath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
 
-      CREATE TABLE IF NOT EXISTS action_items (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        note_id TEXT NOT NULL,
-        content TEXT NOT NULL,
-        assignee TEXT,
-        due_date TEXT,
-        is_completed INTEGER DEFAULT 0,
-        created_at TEXT NOT NULL,
-        FOREIGN KEY (note_id) REFERENCES notes(id)
-      );
+      this.db = new Database(finalPath);
+      this.db.pragma("journal_mode = WAL");
+      this.registerFunctions();
+      backupPath = this.initSchema(finalPath);
+    }
 
-      CREATE TABLE IF NOT EXISTS participants (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        note_id TEXT NOT NULL,
-        email TEXT NOT NULL,
-        FOREIGN KEY (note_id) REFERENCES notes(id),
-        UNIQUE(note_id, email)
-      );
+    if (options.workspace) {
+      this.claimWorkspace(options.workspace);
+    }
+    this.initEncryption(options.encryptionKey);
+
+    // The pre-migration copy holds plaintext (or a plaintext search index); don't leave it next to an encrypted database
+    if (backupPath && this.cipher) {
+      fs.rmSync(backupPath, { force: true });
+      console.error(`Removed unencrypted migration backup ${backupPath}`);
+    }
+  }
+
+  getPath(): string {
+    return this.dbPath;
+  }
+
+  isReadOnly(): boolean {
+    return this.readOnly;
+  }
+
+  isEncryptionEnabled(): boolean {
+    return this.cipher !== null;
+  }
+
+  // The search index views decrypt through this function, so it must exist before any query or migration
+  private registerFunctions(): void {
+    this.db.function("fellow_decrypt", { deterministic: true }, (value: unknown) =>
+      typeof value === "string" ? this.decryptValue(value) : value
+    );
+  }
+
+  private getEncryptionRecord(): EncryptionRecord | null {
+    const row = this.prepare("SELECT value FROM sync_status WHERE key = 'encryption'").get() as
+      | { value: string }
+      | undefined;
+    return row ? (JSON.parse(row.value) as EncryptionRecord) : null;
+  }
+
+  // Unlocks an encrypted database, or encrypts an unencrypted one the first time a key is supplied
+  private initEncryption(secret: string | undefined): void {
+    const record = this.getEncryptionRecord();
+    if (record) {
+      if (!secret) {
+        throw new EncryptionKeyError(
+          `Database ${this.dbPath} is encrypted; set FELLOW_ENCRYPTION_KEY or FELLOW_ENCRYPTION_KEY_FILE`
+        );
+      }
+      this.cipher = FieldCipher.open(secret, record);
+      return;
+    }
+    if (secret) {
+      if (this.readOnly) {
+        throw new EncryptionKeyError(
+          `Database ${this.dbPath} is not encrypted yet; start fellow-mcp once without --read-only to encrypt it`
+        );
+      }
+      this.rotateEncryptionKey(secret);
+    }
+  }
+
+  private decryptValue(value: string): string {
+    if (!isEncrypted(value)) {
+      return value;
+    }
+    if (!this.cipher) {
+      throw new EncryptionKeyError(`Database ${this.dbPath} contains encrypted data but no encryption key was provided`);
+    }
+    return this.cipher.decrypt(value);
+  }
+
+  private encryptValue(value: string | null): string | null {
+    return value !== null && this.cipher ? this.cipher.encrypt(value) : value;
+  }
+
+  private emailKey(email: string): string {
+    return this.cipher ? this.cipher.emailKey(email) : normalizeEmail(email);
+  }
+
+  private decryptNote<T extends { content_markdown: string | null }>(row: T): T {
+    return row.content_markdown ? { ...row, content_markdown: this.decryptValue(row.content_markdown) } : row;
+  }
+
+  private decryptRecording<T extends { transcript_json: string | null }>(row: T): T {
+    return row.transcript_json ? { ...row, transcript_json: this.decryptValue(row.transcript_json) } : row;
+  }
+
+  private decryptActionItem<T extends { content: string; section: string | null; due_phrase: string | null }>(row: T): T {
+    return {
+      ...row,
+      content: this.decryptValue(row.content),
+      section: row.section === null ? null : this.decryptValue(row.section),
+      due_phrase: row.due_phrase === null ? null : this.decryptValue(row.due_phrase),
+    };
+  }
+
+  private decryptText<T extends { text: string }>(row: T): T {
+    return { ...row, text: this.decryptValue(row.text) };
+  }
+
+  /**
+   * Re-encrypts note content, transcripts, transcript segments, action items
+   * and participant and identity emails under a key derived from `newSecret`, or decrypts
+   * them when it is null. The search indexes are emptied when encrypting and
+   * rebuilt when decrypting. Names that were only guessed from an email
+   * address are dropped when encrypting. The database is vacuumed afterwards
+   * so old values don't linger in free pages.
+   */
+  rotateEncryptionKey(newSecret: string | null): void {
+    const next = newSecret ? FieldCipher.create(newSecret) : null;
+    const reencrypt = (value: string): string => {
+      const plain = this.decryptValue(value);
+      return next ? next.encrypt(plain) : plain;
+    };
+
+    this.transaction(() => {
+      const notes = this.prepare("SELECT id, content_markdown FROM notes WHERE content_markdown IS NOT NULL").all() as {
+        id: string;
+        content_markdown: string;
+      }[];
+      const updateNote = this.prepare("UPDATE notes SET content_markdown = ? WHERE id = ?");
+      for (const note of notes) {
+        updateNote.run(reencrypt(note.content_markdown), note.id);
+      }
+
+      const recordings = this.prepare("SELECT id, transcript_json FROM recordings WHERE transcript_json IS NOT NULL").all() as {
+        id: string;
+        transcript_json: string;
+      }[];
+      const updateRecording = this.prepare("UPDATE recordings SET transcript_json = ? WHERE id = ?");
+      for (const recording of recordings) {
+        updateRecording.run(reencrypt(recording.transcript_json), recording.id);
+      }
+
+      const segments = this.prepare("SELECT id, text FROM transcript_segments").all() as { id: number; text: string }[];
+      const updateSegment = this.prepare("UPDATE transcript_segments SET text = ? WHERE id = ?");
+      for (const segment of segments) {
+        updateSegment.run(reencrypt(segment.text), segment.id);
+      }
+
+      const items = this.prepare("SELECT id, content, section, due_phrase FROM action_items").all() as {
+        id: number;
+        content: string;
+        section: string | null;
+        due_phrase: string | null;
+      }[];
+      const updateItem = this.prepare("UPDATE action_items SET content = ?, section = ?, due_phrase = ? WHERE id = ?");
+      for (const item of items) {
+        updateItem.run(
+          reencrypt(item.content),
+          item.section === null ? null : reencrypt(item.section),
+          item.due_phrase === null ? null : reencrypt(item.due_phrase),
+          item.id
+        );
+      }
+
+      if (next) {
+        this.forgetEmailNames();
+      }
+
+      const emailAliases = this.prepare("SELECT id, alias FROM person_aliases WHERE kind = 'email'").all() as {
+        id: number;
+        alias: string;
+      }[];
+      const updateAlias = this.prepare("UPDATE person_aliases SET alias = ?, alias_key = ? WHERE id = ?");
+      for (const row of emailAliases) {
+        const email = this.decryptValue(row.alias);
+        updateAlias.run(next ? next.encrypt(email) : email, next ? next.emailKey(email) : normalizeEmail(email), row.id);
+      }
+
+      const participants = this.prepare("SELECT id, email FROM participants").all() as { id: number; email: string }[];
+      const updateParticipant = this.prepare("UPDATE participants SET email = ?, email_key = ? WHERE id = ?");
+      for (const participant of participants) {
+        const email = this.decryptValue(participant.email);
+        updateParticipant.run(
+          next ? next.encrypt(email) : email,
+          next ? next.emailKey(email) : normalizeEmail(email),
+          participant.id
+        );
+      }
+
+      // Encrypted databases search decrypted rows instead of the indexes; rebuild them once values are plaintext again
+      const indexCommand = next ? "delete-all" : "rebuild";
+      this.db.exec(`
+        INSERT INTO notes_fts (notes_fts) VALUES ('${indexCommand}');
+        INSERT INTO transcript_fts (transcript_fts) VALUES ('${indexCommand}');
+      `);
+
+      if (next) {
+        this.prepare(`
+          INSERT INTO sync_status (key, value) VALUES ('encryption', ?)
+          ON CONFLICT(key) DO UPDATE SET value = excluded.value
+        `).run(JSON.stringify(next.record));
+      } else {
+        this.prepare("DELETE FROM sync_status WHERE key = 'encryption'").run();
+      }
+    });
+
+    this.cipher = next;
+    this.vacuum();
+  }
+
+  // Rewrites the file so deleted or replaced values don't linger in free pages or the WAL
+  vacuum(): void {
+    this.db.exec("VACUUM");
+    this.db.pragma("wal_checkpoint(TRUNCATE)");
+  }
+
+  private prepare(sql: string): Database.Statement {
+    let stmt = this.statements.get(sql);
+    if (stmt) {
+      this.statements.delete(sql);
+    } else {
+      stmt = this.db.prepare(sql);
+      if (this.statements.size >= STATEMENT_CACHE_SIZE) {
+        this.statements.delete(this.statements.keys().next().value!);
+      }
+    }
+    this.statements.set(sql, stmt);
+    return stmt;
+  }
 
-      CREATE TABLE IF NOT EXISTS sync_status (
-        key TEXT PRIMARY KEY,
-        value TEXT NOT NULL
+  /**
+   * Runs `fn` in a single transaction, committing if it returns and rolling
+   * back if it throws. Nested calls become savepoints.
+   */
+  transaction<T>(fn: () => T): T {
+    return this.db.transaction(fn)();
+  }
+
+  // Returns the path of the backup taken before migrating, if any
+  private initSchema(dbPath: string): string | null {
+    const from = getSchemaVersion(this.db);
+    const backupPath = migrate(this.db, dbPath);
+    this.migrated = from > 0 && from < SCHEMA_VERSION;
+    if (backupPath) {
+      console.error(`Migrated database schema from version ${from} to ${SCHEMA_VERSION} (backup: ${backupPath})`);
+    }
+    return backupPath;
+  }
+
+  // Read-only connections can't migrate, so the file must already be at this build's version
+  private checkSchemaVersion(dbPath: string): void {
+    const version = getSchemaVersion(this.db);
+    if (version > SCHEMA_VERSION) {
+      throw new SchemaVersionError(dbPath, version);
+    }
+    if (version < SCHEMA_VERSION) {
+      throw new Error(
+        `Database ${dbPath} is at schema version ${version} and needs upgrading to ${SCHEMA_VERSION}. ` +
+          "Start fellow-mcp once without --read-only to migrate it."
       );
+    }
+  }
+
+  private claimWorkspace(workspace: string): void {
+    const row = this.prepare("SELECT value FROM sync_status WHERE key = 'workspace'").get() as
+      | { value: string }
+      | undefined;
+    if (row && row.value !== workspace) {
+      throw new WorkspaceMismatchError(this.dbPath, workspace, row.value);
+    }
+    if (!row && !this.readOnly) {
+      this.prepare("INSERT INTO sync_status (key, value) VALUES ('workspace', ?)").run(workspace);
+    }
+  }
 
-      CREATE INDEX IF NOT EXISTS idx_notes_event_start ON notes(event_start);
-      CREATE INDEX IF NOT EXISTS idx_notes_title ON notes(title);
-      CREATE INDEX IF NOT EXISTS idx_recordings_note_id ON recordings(note_id);
-      CREATE INDEX IF NOT EXISTS idx_action_items_note_id ON action_items(note_id);
-      CREATE INDEX IF NOT EXISTS idx_action_items_assignee ON action_items(assignee);
-      CREATE INDEX IF NOT EXISTS idx_participants_note_id ON participants(note_id);
-      CREATE INDEX IF NOT EXISTS idx_participants_email ON participants(email);
+  getSchemaVersion(): number {
+    return getSchemaVersion(this.db);
+  }
+
+  // Whether opening the database upgraded an existing schema, so derived data such as identities should be rebuilt
+  wasMigrated(): boolean {
+    return this.migrated;
+  }
+
+  // notes_fts is an external-content index: rows are added and removed with the exact values indexed
+  private noteIndexRow(noteId: string): { note_rowid: number; note_id: string; title: string; content: string } | undefined {
+    return this.prepare("SELECT note_rowid, note_id, title, content FROM notes_fts_source WHERE note_id = ?").get(noteId) as
+      | { note_rowid: number; note_id: string; title: string; content: string }
+      | undefined;
+  }
+
+  // Encrypted databases keep the search indexes empty, since FTS5 stores every token and its position in plaintext
+  private usesSearchIndex(): boolean {
+    return this.cipher === null;
+  }
+
+  private unindexNote(noteId: string): void {
+    if (!this.usesSearchIndex()) return;
+    const row = this.noteIndexRow(noteId);
+    if (!row) return;
+    this.prepare(`
+      INSERT INTO notes_fts (notes_fts, rowid, note_id, title, content) VALUES ('delete', ?, ?, ?, ?)
+    `).run(row.note_rowid, row.note_id, row.title, row.content);
+  }
+
+  private indexNote(noteId: string): void {
+    if (!this.usesSearchIndex()) return;
+    const row = this.noteIndexRow(noteId);
+    if (!row) return;
+    this.prepare("INSERT INTO notes_fts (rowid, note_id, title, content) VALUES (?, ?, ?, ?)").run(
+      row.note_rowid,
+      row.note_id,
+      row.title,
+      row.content
+    );
+  }
+
+  private unindexTranscriptSegments(recordingId: string): void {
+    if (!this.usesSearchIndex()) return;
+    const rows = this.prepare(`
+      SELECT id, recording_id, segment_index, speaker, text, start_time, end_time
+      FROM transcript_fts_source WHERE recording_id = ?
+    `).all(recordingId) as TranscriptIndexRow[];
+    const remove = this.prepare(`
+      INSERT INTO transcript_fts (transcript_fts, rowid, recording_id, segment_index, speaker, text, start_time, end_time)
+      VALUES ('delete', ?, ?, ?, ?, ?, ?, ?)
+    `);
+    for (const row of rows) {
+      remove.run(row.id, row.recording_id, row.segment_index, row.speaker, row.text, row.start_time, row.end_time);
+    }
+  }
+
+  // Splits a recording's transcript JSON into transcript_segments rows and the search index
+  private storeTranscriptSegments(recordingId: string): void {
+    const row = this.prepare("SELECT transcript_json FROM recordings WHERE id = ?").get(recordingId) as
+      | { transcript_json: string | null }
+      | undefined;
+    if (!row?.transcript_json) return;
+
+    let transcript: TranscriptJson;
+    try {
+      transcript = JSON.parse(this.decryptValue(row.transcript_json)) as TranscriptJson;
+    } catch {
+      return;
+    }
+
+    this.unindexTranscriptSegments(recordingId);
+    this.prepare("DELETE FROM transcript_segments WHERE recording_id = ?").run(recordingId);
+    const insertSegment = this.prepare(`
+      INSERT INTO transcript_segments (recording_id, segment_index, speaker, start_time, end_time, text)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    const insertFts = this.prepare(`
+      INSERT INTO transcript_fts (rowid, recording_id, segment_index, speaker, text, start_time, end_time)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
     `);
+    (transcript.speech_segments ?? []).forEach((segment, index) => {
+      const { lastInsertRowid } = insertSegment.run(
+        recordingId,
+        index,
+        segment.speaker,
+        segment.start_time,
+        segment.end_time,
+        this.encryptValue(segment.text)
+      );
+      if (this.usesSearchIndex()) {
+        insertFts.run(lastInsertRowid, recordingId, index, segment.speaker, segment.text, segment.start_time, segment.end_time);
+      }
+    });
+  }
+
+  // Runs an FTS5 query, retrying with every term quoted if the syntax is invalid
+  private matchFts<T>(run: (ftsQuery: string) => T[], query: string): T[] {
+    try {
+      return run(query);
+    } catch (error) {
+      if (error instanceof Database.SqliteError && error.code === "SQLITE_ERROR") {
+        const literal = toLiteralFtsQuery(query);
+        return literal ? run(literal) : [];
+      }
+      throw error;
+    }
   }
 
   // Notes
-  upsertNote(note: Omit<StoredNote, "synced_at">): void {
-    const stmt = this.db.prepare(`
+  upsertNote(note: NoteInput): void {
+    this.unindexNote(note.id);
+    const stmt = this.prepare(`
       INSERT INTO notes (id, title, created_at, updated_at, event_start, event_end, event_guid, call_url, content_markdown, synced_at)
       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       ON CONFLICT(id) DO UPDATE SET
@@ -145,7 +732,8 @@ export class FellowDatabase {
         event_guid = excluded.event_guid,
         call_url = excluded.call_url,
         content_markdown = COALESCE(excluded.content_markdown, content_markdown),
-        synced_at = excluded.synced_at
+        synced_at = excluded.synced_at,
+        deleted_at = NULL
     `);
     stmt.run(
       note.id,
@@ -156,34 +744,115 @@ export class FellowDatabase {
       note.event_end,
       note.event_guid,
       note.call_url,
-      note.content_markdown,
+      this.encryptValue(note.content_markdown),
       new Date().toISOString()
     );
+    this.indexNote(note.id);
+  }
+
+  /**
+   * Writes a batch of notes with their action items and participants in one
+   * transaction, so a crash never leaves a note with its items cleared but
+   * not re-inserted.
+   */
+  upsertNotesWithDetails(writes: NoteWrite[]): void {
+    this.transaction(() => {
+      for (const write of writes) {
+        this.upsertNote(write.note);
+
+        if (write.action_items) {
+          this.syncActionItemsForNote(write.note.id, write.action_items);
+        }
+
+        if (write.participants) {
+          this.clearParticipantsForNote(write.note.id);
+          for (const email of write.participants) {
+            this.insertParticipant(write.note.id, email);
+          }
+        }
+      }
+    });
   }
 
   getNote(id: string): StoredNote | null {
-    const stmt = this.db.prepare("SELECT * FROM notes WHERE id = ?");
-    return stmt.get(id) as StoredNote | null;
+    const stmt = this.prepare("SELECT * FROM notes WHERE id = ?");
+    const row = stmt.get(id) as StoredNote | undefined;
+    return row ? this.decryptNote(row) : null;
   }
 
-  getAllNotes(): StoredNote[] {
-    const stmt = this.db.prepare("SELECT * FROM notes ORDER BY event_start DESC");
-    return stmt.all() as StoredNote[];
+  findNoteByTitle(title: string): StoredNote | null {
+    const stmt = this.prepare(`
+      SELECT * FROM notes
+      WHERE title LIKE ? AND deleted_at IS NULL
+      ORDER BY event_start DESC
+      LIMIT 1
+    `);
+    const row = stmt.get(`%${title}%`) as StoredNote | undefined;
+    return row ? this.decryptNote(row) : null;
   }
 
-  searchNotes(query: string): StoredNote[] {
-    const stmt = this.db.prepare(`
-      SELECT * FROM notes 
-      WHERE title LIKE ? OR content_markdown LIKE ?
+  getAllNotes(options: { includeDeleted?: boolean } = {}): StoredNote[] {
+    const stmt = this.prepare(`
+      SELECT * FROM notes
+      ${options.includeDeleted ? "" : "WHERE deleted_at IS NULL"}
       ORDER BY event_start DESC
     `);
-    const pattern = `%${query}%`;
-    return stmt.all(pattern, pattern) as StoredNote[];
+    return (stmt.all() as StoredNote[]).map((row) => this.decryptNote(row));
+  }
+
+  /**
+   * Full-text search over note titles and content, ranked by BM25 (title
+   * matches weigh more). Accepts FTS5 syntax: "exact phrase", AND/OR/NOT,
+   * and prefix* terms. Encrypted databases scan decrypted notes instead.
+   */
+  searchNotes(
+    query: string,
+    options: { limit?: number; maxSnippets?: number; includeDeleted?: boolean } = {}
+  ): NoteSearchHit[] {
+    if (!this.usesSearchIndex()) {
+      return this.scanNotes(query, options);
+    }
+    const stmt = this.prepare(`
+      SELECT n.*, bm25(notes_fts, 0, 5.0, 1.0) as rank,
+        highlight(notes_fts, 2, '${HIGHLIGHT_OPEN}', '${HIGHLIGHT_CLOSE}') as highlighted
+      FROM notes_fts
+      JOIN notes n ON n.id = notes_fts.note_id
+      WHERE notes_fts MATCH ?${options.includeDeleted ? "" : " AND n.deleted_at IS NULL"}
+      ORDER BY rank
+      LIMIT ?
+    `);
+    const rows = this.matchFts(
+      (ftsQuery) => stmt.all(ftsQuery, options.limit ?? 50) as (StoredNote & { rank: number; highlighted: string })[],
+      query
+    );
+    return rows.map(({ highlighted, ...note }) => ({
+      ...this.decryptNote(note),
+      snippets: extractSnippets(highlighted, options.maxSnippets ?? 3),
+    }));
+  }
+
+  // Unindexed searchNotes: title hits weigh 5x, as in the BM25 weights
+  private scanNotes(query: string, options: { limit?: number; maxSnippets?: number; includeDeleted?: boolean }): NoteSearchHit[] {
+    const parsed = parseSearchQuery(query);
+    if (!parsed) return [];
+    const hits: NoteSearchHit[] = [];
+    for (const note of this.getAllNotes({ includeDeleted: options.includeDeleted })) {
+      const content = note.content_markdown ?? "";
+      const matches = matchText(parsed, [note.title, content]);
+      if (!matches) continue;
+      const contentHits = matches.filter((hit) => hit.field === 1);
+      hits.push({
+        ...note,
+        rank: -(matches.length - contentHits.length) * 5 - contentHits.length,
+        snippets: extractSnippets(highlightHits(content, contentHits, HIGHLIGHT_OPEN, HIGHLIGHT_CLOSE), options.maxSnippets ?? 3),
+      });
+    }
+    return hits.sort((a, b) => a.rank - b.rank).slice(0, options.limit ?? 50);
   }
 
   // Recordings
-  upsertRecording(recording: Omit<StoredRecording, "synced_at">): void {
-    const stmt = this.db.prepare(`
+  upsertRecording(recording: RecordingInput): void {
+    const stmt = this.prepare(`
       INSERT INTO recordings (id, note_id, title, created_at, updated_at, event_start, event_end, recording_start, recording_end, event_guid, call_url, transcript_json, synced_at)
       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       ON CONFLICT(id) DO UPDATE SET
@@ -197,7 +866,8 @@ export class FellowDatabase {
         event_guid = excluded.event_guid,
         call_url = excluded.call_url,
         transcript_json = COALESCE(excluded.transcript_json, transcript_json),
-        synced_at = excluded.synced_at
+        synced_at = excluded.synced_at,
+        deleted_at = NULL
     `);
     stmt.run(
       recording.id,
@@ -211,54 +881,657 @@ export class FellowDatabase {
       recording.recording_end,
       recording.event_guid,
       recording.call_url,
-      recording.transcript_json,
+      this.encryptValue(recording.transcript_json),
       new Date().toISOString()
     );
+    if (recording.transcript_json) {
+      this.storeTranscriptSegments(recording.id);
+    }
+  }
+
+  upsertRecordings(recordings: RecordingInput[]): void {
+    this.transaction(() => {
+      for (const recording of recordings) {
+        this.upsertRecording(recording);
+      }
+    });
   }
 
   getRecording(id: string): StoredRecording | null {
-    const stmt = this.db.prepare("SELECT * FROM recordings WHERE id = ?");
-    return stmt.get(id) as StoredRecording | null;
+    const stmt = this.prepare("SELECT * FROM recordings WHERE id = ?");
+    const row = stmt.get(id) as StoredRecording | undefined;
+    return row ? this.decryptRecording(row) : null;
   }
 
-  // Action Items
-  clearActionItemsForNote(noteId: string): void {
-    const stmt = this.db.prepare("DELETE FROM action_items WHERE note_id = ?");
-    stmt.run(noteId);
+  /**
+   * Full-text search over individual transcript speech segments, ranked by
+   * BM25. Accepts the same FTS5 syntax as `searchNotes`; encrypted
+   * databases scan decrypted segments instead.
+   */
+  searchTranscripts(
+    query: string,
+    filters: {
+      speaker?: string;
+      since?: string;
+      until?: string;
+      participant?: string;
+      sort?: "relevance" | "recent";
+      limit?: number;
+    } = {}
+  ): TranscriptSearchHit[] {
+    if (!this.usesSearchIndex()) {
+      return this.scanTranscripts(query, filters);
+    }
+    let sql = `
+      SELECT transcript_fts.recording_id, r.note_id, r.title as recording_title, r.event_start,
+        transcript_fts.segment_index, transcript_fts.speaker, transcript_fts.start_time,
+        transcript_fts.end_time, transcript_fts.text,
+        snippet(transcript_fts, 3, '**', '**', '...', 24) as snippet,
+        bm25(transcript_fts) as rank
+      FROM transcript_fts
+      JOIN recordings r ON r.id = transcript_fts.recording_id
+      WHERE transcript_fts MATCH ? AND r.deleted_at IS NULL
+    `;
+    const params: unknown[] = [];
+
+    sql += this.transcriptFilterSql("transcript_fts", filters, params);
+
+    sql +=
+      filters.sort === "recent"
+        ? " ORDER BY COALESCE(r.event_start, r.recording_start, r.created_at) DESC, transcript_fts.start_time"
+        : " ORDER BY rank";
+    sql += " LIMIT ?";
+    params.push(filters.limit ?? 50);
+
+    const stmt = this.prepare(sql);
+    return this.matchFts(
+      (ftsQuery) => stmt.all(ftsQuery, ...params) as TranscriptSearchHit[],
+      query
+    );
   }
 
-  insertActionItem(item: Omit<StoredActionItem, "id">): void {
-    const stmt = this.db.prepare(`
-      INSERT INTO action_items (note_id, content, assignee, due_date, is_completed, created_at)
-      VALUES (?, ?, ?, ?, ?, ?)
+  // Conditions shared by indexed and unindexed transcript search; `table` holds the speaker column
+  private transcriptFilterSql(
+    table: string,
+    filters: { speaker?: string; since?: string; until?: string; participant?: string },
+    params: unknown[]
+  ): string {
+    let sql = "";
+    if (filters.speaker) {
+      sql += ` AND ${table}.speaker LIKE ?`;
+      params.push(`%${filters.speaker}%`);
+    }
+    if (filters.since) {
+      sql += " AND COALESCE(r.event_start, r.recording_start, r.created_at) >= ?";
+      params.push(filters.since);
+    }
+    if (filters.until) {
+      sql += " AND COALESCE(r.event_start, r.recording_start, r.created_at) <= ?";
+      params.push(filters.until);
+    }
+    if (filters.participant) {
+      sql += " AND r.note_id IN (SELECT note_id FROM participants WHERE email_key = ?)";
+      params.push(this.emailKey(filters.participant));
+    }
+    return sql;
+  }
+
+  private scanTranscripts(
+    query: string,
+    filters: { speaker?: string; since?: string; until?: string; participant?: string; sort?: "relevance" | "recent"; limit?: number }
+  ): TranscriptSearchHit[] {
+    const parsed = parseSearchQuery(query);
+    if (!parsed) return [];
+    const params: unknown[] = [];
+    const sql = `
+      SELECT s.recording_id, r.note_id, r.title as recording_title, r.event_start,
+        s.segment_index, s.speaker, s.start_time, s.end_time, s.text
+      FROM transcript_segments s
+      JOIN recordings r ON r.id = s.recording_id
+      WHERE r.deleted_at IS NULL${this.transcriptFilterSql("s", filters, params)}
+      ORDER BY COALESCE(r.event_start, r.recording_start, r.created_at) DESC, s.start_time
+    `;
+    const hits: TranscriptSearchHit[] = [];
+    for (const row of this.prepare(sql).all(...params) as Omit<TranscriptSearchHit, "snippet" | "rank">[]) {
+      const segment = this.decryptText(row);
+      const matches = matchText(parsed, [segment.speaker, segment.text]);
+      if (!matches) continue;
+      const textHits = matches.filter((hit) => hit.field === 1);
+      const highlighted = highlightHits(segment.text, textHits, HIGHLIGHT_OPEN, HIGHLIGHT_CLOSE);
+      hits.push({ ...segment, snippet: extractSnippets(highlighted, 1)[0] ?? segment.text, rank: -matches.length });
+    }
+    // Rows are already newest first; a stable sort keeps that order among equally ranked hits
+    if (filters.sort !== "recent") hits.sort((a, b) => a.rank - b.rank);
+    return hits.slice(0, filters.limit ?? 50);
+  }
+
+  // Transcript segments
+  getTranscriptSegments(
+    recordingId: string,
+    range?: { fromIndex?: number; toIndex?: number }
+  ): StoredTranscriptSegment[] {
+    const stmt = this.prepare(`
+      SELECT * FROM transcript_segments
+      WHERE recording_id = ? AND segment_index >= ? AND segment_index <= ?
+      ORDER BY segment_index
     `);
-    stmt.run(
-      item.note_id,
-      item.content,
-      item.assignee,
-      item.due_date,
-      item.is_completed ? 1 : 0,
-      item.created_at
+    const rows = stmt.all(
+      recordingId,
+      range?.fromIndex ?? 0,
+      range?.toIndex ?? Number.MAX_SAFE_INTEGER
+    ) as StoredTranscriptSegment[];
+    return rows.map((row) => this.decryptText(row));
+  }
+
+  /**
+   * Segments of a recording that overlap the [startTime, endTime] window, in seconds.
+   */
+  getTranscriptSegmentsInWindow(recordingId: string, startTime: number, endTime: number): StoredTranscriptSegment[] {
+    const stmt = this.prepare(`
+      SELECT * FROM transcript_segments
+      WHERE recording_id = ? AND end_time >= ? AND start_time <= ?
+      ORDER BY segment_index
+    `);
+    return (stmt.all(recordingId, startTime, endTime) as StoredTranscriptSegment[]).map((row) => this.decryptText(row));
+  }
+
+  getTranscriptSegmentsBySpeaker(
+    speaker: string,
+    filters?: { recording_id?: string; since?: string; until?: string }
+  ): (StoredTranscriptSegment & { recording_title: string; event_start: string | null })[] {
+    let query = `
+      SELECT s.*, r.title as recording_title, r.event_start
+      FROM transcript_segments s
+      JOIN recordings r ON s.recording_id = r.id
+      WHERE s.speaker = ? COLLATE NOCASE AND r.deleted_at IS NULL
+    `;
+    const params: unknown[] = [speaker];
+
+    if (filters?.recording_id) {
+      query += " AND s.recording_id = ?";
+      params.push(filters.recording_id);
+    }
+    if (filters?.since) {
+      query += " AND COALESCE(r.event_start, r.recording_start, r.created_at) >= ?";
+      params.push(filters.since);
+    }
+    if (filters?.until) {
+      query += " AND COALESCE(r.event_start, r.recording_start, r.created_at) <= ?";
+      params.push(filters.until);
+    }
+
+    query += " ORDER BY r.event_start DESC, s.segment_index";
+
+    const stmt = this.prepare(query);
+    const rows = stmt.all(...params) as (StoredTranscriptSegment & { recording_title: string; event_start: string | null })[];
+    return rows.map((row) => this.decryptText(row));
+  }
+
+  /**
+   * Cached recordings that have transcript segments, newest first. Excludes the
+   * raw transcript JSON; read segments with `getTranscriptSegments`.
+   */
+  getRecordingsWithTranscripts(filters?: {
+    title?: string;
+    since?: string;
+    until?: string;
+  }): Omit<StoredRecording, "transcript_json">[] {
+    let query = `
+      SELECT r.id, r.note_id, r.title, r.created_at, r.updated_at, r.event_start, r.event_end,
+        r.recording_start, r.recording_end, r.event_guid, r.call_url, r.synced_at, r.deleted_at
+      FROM recordings r
+      WHERE r.deleted_at IS NULL
+        AND EXISTS (SELECT 1 FROM transcript_segments s WHERE s.recording_id = r.id)
+    `;
+    const params: unknown[] = [];
+
+    if (filters?.title) {
+      query += " AND r.title LIKE ?";
+      params.push(`%${filters.title}%`);
+    }
+    if (filters?.since) {
+      query += " AND COALESCE(r.event_start, r.recording_start, r.created_at) >= ?";
+      params.push(filters.since);
+    }
+    if (filters?.until) {
+      query += " AND COALESCE(r.event_start, r.recording_start, r.created_at) <= ?";
+      params.push(filters.until);
+    }
+
+    query += " ORDER BY COALESCE(r.event_start, r.recording_start, r.created_at) DESC";
+
+    const stmt = this.prepare(query);
+    return stmt.all(...params) as Omit<StoredRecording, "transcript_json">[];
+  }
+
+  getTranscriptSpeakers(recordingId?: string): { speaker: string; segments: number }[] {
+    const stmt = this.prepare(`
+      SELECT speaker, COUNT(*) as segments FROM transcript_segments
+      ${recordingId ? "WHERE recording_id = ?" : ""}
+      GROUP BY speaker
+      ORDER BY segments DESC
+    `);
+    return (recordingId ? stmt.all(recordingId) : stmt.all()) as { speaker: string; segments: number }[];
+  }
+
+  getRecordingsForNote(noteId: string): StoredRecording[] {
+    const stmt = this.prepare("SELECT * FROM recordings WHERE note_id = ? AND deleted_at IS NULL ORDER BY created_at DESC");
+    return (stmt.all(noteId) as StoredRecording[]).map((row) => this.decryptRecording(row));
+  }
+
+  // Every cached recording, tombstoned ones included, with the fields a sync scope looks at
+  getRecordingScopeRows(): { id: string; note_id: string | null; title: string; created_at: string }[] {
+    return this.prepare("SELECT id, note_id, title, created_at FROM recordings").all() as {
+      id: string;
+      note_id: string | null;
+      title: string;
+      created_at: string;
+    }[];
+  }
+
+  // Tombstones
+  getNoteIds(): string[] {
+    const rows = this.prepare("SELECT id FROM notes WHERE deleted_at IS NULL").all() as { id: string }[];
+    return rows.map((r) => r.id);
+  }
+
+  getRecordingNoteIds(): { id: string; note_id: string | null }[] {
+    return this.prepare("SELECT id, note_id FROM recordings WHERE deleted_at IS NULL").all() as {
+      id: string;
+      note_id: string | null;
+    }[];
+  }
+
+  /**
+   * Soft-deletes notes that no longer exist in Fellow. The rows (and their
+   * action items and participants) stay so history is not lost, but are
+   * hidden from queries unless deleted rows are asked for.
+   */
+  markNotesDeleted(ids: string[], deletedAt: string = new Date().toISOString()): void {
+    const stmt = this.prepare("UPDATE notes SET deleted_at = ? WHERE id = ? AND deleted_at IS NULL");
+    this.transaction(() => {
+      for (const id of ids) {
+        stmt.run(deletedAt, id);
+      }
+    });
+  }
+
+  markRecordingsDeleted(ids: string[], deletedAt: string = new Date().toISOString()): void {
+    const stmt = this.prepare("UPDATE recordings SET deleted_at = ? WHERE id = ? AND deleted_at IS NULL");
+    this.transaction(() => {
+      for (const id of ids) {
+        stmt.run(deletedAt, id);
+      }
+    });
+  }
+
+  /**
+   * Permanently removes notes with their action items, participants,
+   * recordings and transcript segments, including their search index rows.
+   */
+  deleteNotes(ids: string[]): void {
+    this.transaction(() => {
+      for (const id of ids) {
+        for (const recording of this.prepare("SELECT id FROM recordings WHERE note_id = ?").all(id) as { id: string }[]) {
+          this.unindexTranscriptSegments(recording.id);
+          this.prepare("DELETE FROM transcript_segments WHERE recording_id = ?").run(recording.id);
+        }
+        this.prepare("DELETE FROM recordings WHERE note_id = ?").run(id);
+        this.prepare("DELETE FROM action_items WHERE note_id = ?").run(id);
+        this.prepare("DELETE FROM action_item_history WHERE note_id = ?").run(id);
+        this.prepare("DELETE FROM participants WHERE note_id = ?").run(id);
+        this.unindexNote(id);
+        this.prepare("DELETE FROM notes WHERE id = ?").run(id);
+      }
+    });
+  }
+
+  // Permanently removes recordings and their transcript segments
+  deleteRecordings(ids: string[]): void {
+    this.transaction(() => {
+      for (const id of ids) {
+        this.unindexTranscriptSegments(id);
+        this.prepare("DELETE FROM transcript_segments WHERE recording_id = ?").run(id);
+        this.prepare("DELETE FROM recordings WHERE id = ?").run(id);
+      }
+    });
+  }
+
+  /**
+   * Drops stored transcripts (and their segments) from recordings that
+   * started before `cutoff`, keeping the recording rows themselves.
+   * Returns the number of transcripts removed.
+   */
+  deleteTranscriptsBefore(cutoff: string): number {
+    const rows = this.prepare(`
+      SELECT id FROM recordings
+      WHERE transcript_json IS NOT NULL AND COALESCE(recording_start, event_start, created_at) < ?
+    `).all(cutoff) as { id: string }[];
+    this.transaction(() => {
+      for (const { id } of rows) {
+        this.unindexTranscriptSegments(id);
+        this.prepare("DELETE FROM transcript_segments WHERE recording_id = ?").run(id);
+        this.prepare("UPDATE recordings SET transcript_json = NULL WHERE id = ?").run(id);
+      }
+    });
+    return rows.length;
+  }
+
+  /**
+   * Notes, and recordings without a note, matching every given filter. Dates
+   * compare against the meeting start, falling back to creation time.
+   * Tombstoned rows are included so purges cover everything on disk.
+   */
+  findPurgeCandidates(filters: { noteIds?: string[]; since?: string; until?: string; participant?: string }): {
+    notes: { id: string; title: string; date: string }[];
+    recordings: { id: string; title: string; date: string }[];
+  } {
+    let noteQuery = "SELECT id, title, COALESCE(event_start, created_at) as date FROM notes WHERE 1=1";
+    const noteParams: string[] = [];
+    let recordingQuery =
+      "SELECT id, title, COALESCE(recording_start, event_start, created_at) as date FROM recordings WHERE note_id IS NULL";
+    const recordingParams: string[] = [];
+
+    if (filters.noteIds) {
+      noteQuery += ` AND id IN (${filters.noteIds.map(() => "?").join(", ") || "NULL"})`;
+      noteParams.push(...filters.noteIds);
+    }
+    if (filters.since) {
+      noteQuery += " AND COALESCE(event_start, created_at) >= ?";
+      noteParams.push(filters.since);
+      recordingQuery += " AND COALESCE(recording_start, event_start, created_at) >= ?";
+      recordingParams.push(filters.since);
+    }
+    if (filters.until) {
+      noteQuery += " AND COALESCE(event_start, created_at) <= ?";
+      noteParams.push(filters.until);
+      recordingQuery += " AND COALESCE(recording_start, event_start, created_at) <= ?";
+      recordingParams.push(filters.until);
+    }
+    if (filters.participant) {
+      noteQuery += " AND id IN (SELECT note_id FROM participants WHERE email_key = ?)";
+      noteParams.push(this.emailKey(filters.participant));
+    }
+    noteQuery += " ORDER BY date DESC";
+    recordingQuery += " ORDER BY date DESC";
+
+    type Candidate = { id: string; title: string; date: string };
+    return {
+      notes: this.prepare(noteQuery).all(...noteParams) as Candidate[],
+      // Recordings without a note have no ID or attendee list to match on
+      recordings:
+        filters.noteIds || filters.participant ? [] : (this.prepare(recordingQuery).all(...recordingParams) as Candidate[]),
+    };
+  }
+
+  // Row counts that purging these notes and recordings would remove, for dry runs
+  countPurgeImpact(noteIds: string[], recordingIds: string[]): {
+    recordings: number;
+    transcript_segments: number;
+    action_items: number;
+  } {
+    const impact = { recordings: recordingIds.length, transcript_segments: 0, action_items: 0 };
+    for (const id of noteIds) {
+      const counts = this.prepare(`
+        SELECT
+          (SELECT COUNT(*) FROM recordings WHERE note_id = ?) as recordings,
+          (SELECT COUNT(*) FROM transcript_segments WHERE recording_id IN (SELECT id FROM recordings WHERE note_id = ?)) as segments,
+          (SELECT COUNT(*) FROM action_items WHERE note_id = ?) as action_items
+      `).get(id, id, id) as { recordings: number; segments: number; action_items: number };
+      impact.recordings += counts.recordings;
+      impact.transcript_segments += counts.segments;
+      impact.action_items += counts.action_items;
+    }
+    for (const id of recordingIds) {
+      const row = this.prepare("SELECT COUNT(*) as count FROM transcript_segments WHERE recording_id = ?").get(id) as {
+        count: number;
+      };
+      impact.transcript_segments += row.count;
+    }
+    return impact;
+  }
+
+  // Purged IDs are remembered so later syncs don't download the data again
+  recordPurged(noteIds: string[], recordingIds: string[], purgedAt: string = new Date().toISOString()): void {
+    const stmt = this.prepare("INSERT OR IGNORE INTO purged_items (id, kind, purged_at) VALUES (?, ?, ?)");
+    this.transaction(() => {
+      for (const id of noteIds) {
+        stmt.run(id, "note", purgedAt);
+      }
+      for (const id of recordingIds) {
+        stmt.run(id, "recording", purgedAt);
+      }
+    });
+  }
+
+  isPurged(id: string): boolean {
+    return this.prepare("SELECT 1 FROM purged_items WHERE id = ?").get(id) !== undefined;
+  }
+
+  // Re-points a recording that was detached from its note or moved to another one in Fellow
+  setRecordingNote(recordingId: string, noteId: string | null): void {
+    this.prepare("UPDATE recordings SET note_id = ? WHERE id = ?").run(noteId, recordingId);
+  }
+
+  // Action Items
+  private recordActionItemEvent(fingerprint: string, noteId: string, event: ActionItemEvent, at: string): void {
+    this.prepare("INSERT INTO action_item_history (fingerprint, note_id, event, at) VALUES (?, ?, ?, ?)").run(
+      fingerprint,
+      noteId,
+      event,
+      at
     );
   }
 
+  /**
+   * Reconciles a note's parsed action items with the stored ones, keeping
+   * each item's row and fingerprint and recording lifecycle transitions.
+   * Items are matched by normalized text (and occurrence, for repeated
+   * text), then previously removed items are restored, and an unmatched
+   * item at the same position as an unmatched stored one counts as reworded.
+   */
+  syncActionItemsForNote(noteId: string, items: ActionItemInput[], now: string = new Date().toISOString()): void {
+    const stored = (
+      this.prepare("SELECT * FROM action_items WHERE note_id = ? ORDER BY position, id").all(noteId) as StoredActionItem[]
+    ).map((row) => this.decryptActionItem(row));
+
+    // Text plus occurrence number, so two identical items in one note stay distinct
+    const textKeys = <T extends { content: string }>(list: T[]): Map<T, string> => {
+      const seen = new Map<string, number>();
+      const keys = new Map<T, string>();
+      for (const entry of list) {
+        const text = normalizeActionItemText(entry.content);
+        const occurrence = seen.get(text) ?? 0;
+        seen.set(text, occurrence + 1);
+        keys.set(entry, `${occurrence}:${text}`);
+      }
+      return keys;
+    };
+    const live = stored.filter((row) => row.removed_at === null);
+    const removed = stored.filter((row) => row.removed_at !== null);
+    const liveByKey = new Map([...textKeys(live)].map(([row, key]) => [key, row]));
+    const removedByKey = new Map([...textKeys(removed)].map(([row, key]) => [key, row]));
+
+    const matches = new Map<number, { row: StoredActionItem; event: ActionItemEvent | null }>();
+    const used = new Set<StoredActionItem>();
+    const incomingKeys = textKeys(items);
+    items.forEach((item, position) => {
+      const key = incomingKeys.get(item)!;
+      const row = liveByKey.get(key) ?? removedByKey.get(key);
+      if (row && !used.has(row)) {
+        used.add(row);
+        matches.set(position, { row, event: row.removed_at ? "restored" : null });
+      }
+    });
+    items.forEach((_item, position) => {
+      if (matches.has(position)) return;
+      const row = live.find((candidate) => candidate.position === position && !used.has(candidate));
+      if (row) {
+        used.add(row);
+        matches.set(position, { row, event: "reworded" });
+      }
+    });
+
+    const fingerprints = new Set(stored.map((row) => row.fingerprint));
+    const update = this.prepare(`
+      UPDATE action_items
+      SET content = ?, assignee = ?, due_date = ?, due_phrase = ?, is_completed = ?, position = ?, completed_at = ?, section = ?,
+        source_line = ?, removed_at = NULL
+      WHERE id = ?
+    `);
+    const insert = this.prepare(`
+      INSERT INTO action_items (
+        fingerprint, note_id, content, assignee, due_date, due_phrase, is_completed, position, created_at, completed_at, section,
+        source_line
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    items.forEach((item, position) => {
+      const match = matches.get(position);
+      if (match) {
+        const { row, event } = match;
+        let completedAt = row.completed_at;
+        if (item.is_completed && !row.is_completed) completedAt = now;
+        if (!item.is_completed) completedAt = null;
+        update.run(
+          this.encryptValue(item.content),
+          item.assignee,
+          item.due_date,
+          this.encryptValue(item.due_phrase),
+          item.is_completed ? 1 : 0,
+          position,
+          completedAt,
+          this.encryptValue(item.section),
+          item.source_line,
+          row.id
+        );
+        if (event) this.recordActionItemEvent(row.fingerprint, noteId, event, now);
+        if (item.is_completed && !row.is_completed) this.recordActionItemEvent(row.fingerprint, noteId, "completed", now);
+        if (!item.is_completed && row.is_completed) this.recordActionItemEvent(row.fingerprint, noteId, "reopened", now);
+        return;
+      }
+
+      const occurrence = Number(incomingKeys.get(item)!.split(":", 1)[0]);
+      let fingerprint = actionItemFingerprint(noteId, item.content, occurrence);
+      // A reworded item keeps its old fingerprint, which new text may hash to later
+      for (let suffix = 1; fingerprints.has(fingerprint); suffix++) {
+        fingerprint = actionItemFingerprint(noteId, `${item.content} (${suffix})`, occurrence);
+      }
+      fingerprints.add(fingerprint);
+      insert.run(
+        fingerprint,
+        noteId,
+        this.encryptValue(item.content),
+        item.assignee,
+        item.due_date,
+        this.encryptValue(item.due_phrase),
+        item.is_completed ? 1 : 0,
+        position,
+        now,
+        item.is_completed ? now : null,
+        this.encryptValue(item.section),
+        item.source_line
+      );
+      this.recordActionItemEvent(fingerprint, noteId, "first_seen", now);
+      if (item.is_completed) this.recordActionItemEvent(fingerprint, noteId, "completed", now);
+    });
+
+    const markRemoved = this.prepare("UPDATE action_items SET removed_at = ? WHERE id = ?");
+    for (const row of live) {
+      if (used.has(row)) continue;
+      markRemoved.run(now, row.id);
+      this.recordActionItemEvent(row.fingerprint, noteId, "removed", now);
+    }
+  }
+
+  /**
+   * Lifecycle events between `since` and `until`, newest first, with the
+   * item's current text and timestamps.
+   */
+  getActionItemHistory(filters: {
+    since?: string;
+    until?: string;
+    events?: ActionItemEvent[];
+    assignee?: string;
+    includeDeleted?: boolean;
+  } = {}): ActionItemHistoryEntry[] {
+    let query = `
+      SELECT h.fingerprint, h.note_id, h.event, h.at, a.content, a.assignee, a.created_at, a.completed_at, n.title as note_title
+      FROM action_item_history h
+      JOIN action_items a ON a.fingerprint = h.fingerprint
+      JOIN notes n ON n.id = h.note_id
+      WHERE 1=1
+    `;
+    const params: string[] = [];
+
+    if (!filters.includeDeleted) {
+      query += " AND n.deleted_at IS NULL";
+    }
+    if (filters.since) {
+      query += " AND h.at >= ?";
+      params.push(filters.since);
+    }
+    if (filters.until) {
+      query += " AND h.at <= ?";
+      params.push(filters.until);
+    }
+    if (filters.events && filters.events.length > 0) {
+      query += ` AND h.event IN (${filters.events.map(() => "?").join(", ")})`;
+      params.push(...filters.events);
+    }
+    if (filters.assignee) {
+      query += " AND a.assignee LIKE ?";
+      params.push(`%${filters.assignee}%`);
+    }
+    query += " ORDER BY h.at DESC, h.id DESC";
+
+    const rows = this.prepare(query).all(...params) as ActionItemHistoryEntry[];
+    return rows.map((row) => ({ ...row, content: this.decryptValue(row.content) }));
+  }
+
+  /**
+   * Action items still present in their notes. The due filters (`overdue`,
+   * `due_within_days`, `no_due_date`) compare against `today` and are
+   * combined with OR, so "overdue or due this week" is one query.
+   */
   getAllActionItems(filters?: {
     assignee?: string;
+    // Only items assigned to one of this person's handles or names
+    person_id?: number;
     is_completed?: boolean;
     since?: string;
-  }): (StoredActionItem & { note_title: string; event_start: string | null })[] {
+    include_deleted?: boolean;
+    today?: string;
+    overdue?: boolean;
+    due_within_days?: number;
+    no_due_date?: boolean;
+    sort_by?: "meeting_date" | "due_date";
+  }): (StoredActionItem & { note_title: string; event_start: string | null; note_deleted_at: string | null })[] {
     let query = `
-      SELECT a.*, n.title as note_title, n.event_start
+      SELECT a.*, n.title as note_title, n.event_start, n.deleted_at as note_deleted_at
       FROM action_items a
       JOIN notes n ON a.note_id = n.id
-      WHERE 1=1
+      WHERE a.removed_at IS NULL
     `;
     const params: unknown[] = [];
 
+    if (!filters?.include_deleted) {
+      query += " AND n.deleted_at IS NULL";
+    }
+
     if (filters?.assignee) {
       query += " AND a.assignee LIKE ?";
       params.push(`%${filters.assignee}%`);
     }
+    if (filters?.person_id !== undefined) {
+      query += `
+        AND lower(a.assignee) IN (
+          SELECT alias_key FROM person_aliases WHERE person_id = ? AND kind IN ('handle', 'name', 'speaker')
+        )
+      `;
+      params.push(filters.person_id);
+    }
     if (filters?.is_completed !== undefined) {
       query += " AND a.is_completed = ?";
       params.push(filters.is_completed ? 1 : 0);
@@ -268,81 +1541,380 @@ export class FellowDatabase {
       params.push(filters.since);
     }
 
-    query += " ORDER BY n.event_start DESC";
+    const today = filters?.today ?? new Date().toISOString().split("T")[0];
+    const dueConditions: string[] = [];
+    if (filters?.overdue) {
+      dueConditions.push("(a.due_date < ? AND a.is_completed = 0)");
+      params.push(today);
+    }
+    if (filters?.due_within_days !== undefined) {
+      dueConditions.push("(a.due_date >= ? AND a.due_date <= ?)");
+      params.push(today, shiftDate(today, filters.due_within_days));
+    }
+    if (filters?.no_due_date) {
+      dueConditions.push("a.due_date IS NULL");
+    }
+    if (dueConditions.length > 0) {
+      query += ` AND (${dueConditions.join(" OR ")})`;
+    }
 
-    const stmt = this.db.prepare(query);
-    return stmt.all(...params) as (StoredActionItem & { note_title: string; event_start: string | null })[];
+    query +=
+      filters?.sort_by === "due_date"
+        ? " ORDER BY a.due_date IS NULL, a.due_date, n.event_start DESC, a.position"
+        : " ORDER BY n.event_start DESC, a.position";
+
+    const stmt = this.prepare(query);
+    const rows = stmt.all(...params) as (StoredActionItem & {
+      note_title: string;
+      event_start: string | null;
+      note_deleted_at: string | null;
+    })[];
+    return rows.map((row) => this.decryptActionItem(row));
   }
 
   // Participants
   clearParticipantsForNote(noteId: string): void {
-    const stmt = this.db.prepare("DELETE FROM participants WHERE note_id = ?");
+    const stmt = this.prepare("DELETE FROM participants WHERE note_id = ?");
     stmt.run(noteId);
   }
 
   insertParticipant(noteId: string, email: string): void {
-    const stmt = this.db.prepare(`
-      INSERT OR IGNORE INTO participants (note_id, email) VALUES (?, ?)
+    const stmt = this.prepare(`
+      INSERT OR IGNORE INTO participants (note_id, email, email_key) VALUES (?, ?, ?)
     `);
-    stmt.run(noteId, email);
+    stmt.run(noteId, this.encryptValue(email), this.emailKey(email));
   }
 
-  getMeetingsByParticipants(emails: string[]): StoredNote[] {
+  getMeetingsByParticipants(emails: string[], options: { includeDeleted?: boolean } = {}): StoredNote[] {
     if (emails.length === 0) return [];
 
     const placeholders = emails.map(() => "?").join(",");
-    const stmt = this.db.prepare(`
+    const stmt = this.prepare(`
       SELECT DISTINCT n.* FROM notes n
       JOIN participants p ON n.id = p.note_id
-      WHERE p.email IN (${placeholders})
+      WHERE p.email_key IN (${placeholders})${options.includeDeleted ? "" : " AND n.deleted_at IS NULL"}
       ORDER BY n.event_start DESC
     `);
-    return stmt.all(...emails) as StoredNote[];
+    const rows = stmt.all(...emails.map((email) => this.emailKey(email))) as StoredNote[];
+    return rows.map((row) => this.decryptNote(row));
   }
 
-  getMeetingsWithAllParticipants(emails: string[]): StoredNote[] {
+  getMeetingsWithAllParticipants(emails: string[], options: { includeDeleted?: boolean } = {}): StoredNote[] {
     if (emails.length === 0) return [];
 
     const placeholders = emails.map(() => "?").join(",");
-    const stmt = this.db.prepare(`
+    const stmt = this.prepare(`
       SELECT n.* FROM notes n
       WHERE (
-        SELECT COUNT(DISTINCT p.email) FROM participants p 
-        WHERE p.note_id = n.id AND p.email IN (${placeholders})
-      ) = ?
+        SELECT COUNT(DISTINCT p.email_key) FROM participants p 
+        WHERE p.note_id = n.id AND p.email_key IN (${placeholders})
+      ) = ?${options.includeDeleted ? "" : " AND n.deleted_at IS NULL"}
       ORDER BY n.event_start DESC
     `);
-    return stmt.all(...emails, emails.length) as StoredNote[];
+    const keys = [...new Set(emails.map((email) => this.emailKey(email)))];
+    const rows = stmt.all(...keys, keys.length) as StoredNote[];
+    return rows.map((row) => this.decryptNote(row));
   }
 
   getParticipantsForNote(noteId: string): string[] {
-    const stmt = this.db.prepare("SELECT email FROM participants WHERE note_id = ?");
+    const stmt = this.prepare("SELECT email FROM participants WHERE note_id = ?");
     const rows = stmt.all(noteId) as { email: string }[];
-    return rows.map((r) => r.email);
+    return rows.map((r) => this.decryptValue(r.email));
+  }
+
+  // People
+  private aliasKey(kind: AliasKind, alias: string): string {
+    if (kind === "email") {
+      return this.emailKey(alias);
+    }
+    const key = alias.trim().replace(/\s+/g, " ").toLowerCase();
+    return kind === "handle" ? key.replace(/^@/, "") : key;
+  }
+
+  // Participants, @mention assignees and transcript speakers per note (all notes, or just `noteIds`), the raw material for seedIdentities
+  getIdentitySources(noteIds?: string[]): {
+    participants: { note_id: string; email: string }[];
+    mentions: { note_id: string; handle: string }[];
+    speakers: { note_id: string; speaker: string }[];
+  } {
+    // The IDs go in as one JSON array so any number of notes fits in a single statement
+    const inNotes = (column: string) => (noteIds ? ` AND ${column} IN (SELECT value FROM json_each(?))` : "");
+    const params = noteIds ? [JSON.stringify(noteIds)] : [];
+
+    const participants = (
+      this.prepare(`SELECT note_id, email FROM participants WHERE 1 = 1${inNotes("note_id")}`).all(...params) as {
+        note_id: string;
+        email: string;
+      }[]
+    ).map((row) => ({ ...row, email: this.decryptValue(row.email) }));
+    const mentions = this.prepare(`
+      SELECT DISTINCT note_id, assignee as handle FROM action_items
+      WHERE assignee IS NOT NULL AND removed_at IS NULL${inNotes("note_id")}
+    `).all(...params) as { note_id: string; handle: string }[];
+    const speakers = this.prepare(`
+      SELECT DISTINCT r.note_id, s.speaker FROM transcript_segments s
+      JOIN recordings r ON s.recording_id = r.id
+      WHERE r.note_id IS NOT NULL AND s.speaker != ''${inNotes("r.note_id")}
+    `).all(...params) as { note_id: string; speaker: string }[];
+    return { participants, mentions, speakers };
+  }
+
+  /**
+   * Links the aliases in `seeds`. Each seed's email finds or creates its
+   * person; aliases that are already linked, manual ones included, and emails
+   * or aliases unlinked by hand are left alone. With `replace`, every
+   * automatically derived alias is dropped first, so `seeds` become the whole
+   * automatic picture.
+   */
+  applyIdentitySeeds(
+    seeds: PersonSeed[],
+    replace: boolean,
+    now: string = new Date().toISOString()
+  ): { people_created: number; aliases_linked: number } {
+    const result = { people_created: 0, aliases_linked: 0 };
+    this.transaction(() => {
+      // Seeded email aliases stay: they are what ties a person to their email across passes
+      if (replace) {
+        this.prepare("DELETE FROM person_aliases WHERE source = 'auto' AND kind != 'email'").run();
+      }
+
+      const findEmail = this.prepare("SELECT person_id FROM person_aliases WHERE kind = 'email' AND alias_key = ?");
+      const insertAlias = this.prepare(`
+        INSERT OR IGNORE INTO person_aliases (person_id, kind, alias_key, alias, source) VALUES (?, ?, ?, ?, 'auto')
+      `);
+      for (const seed of seeds) {
+        const existing = findEmail.get(this.aliasKey("email", seed.email)) as { person_id: number | null } | undefined;
+        if (existing && existing.person_id === null) continue;
+
+        let personId = existing?.person_id;
+        if (personId === undefined || personId === null) {
+          personId = this.createPerson(seed.display_name, now);
+          insertAlias.run(personId, "email", this.aliasKey("email", seed.email), this.encryptValue(seed.email));
+          result.people_created++;
+        } else if (seed.display_name) {
+          this.prepare("UPDATE people SET display_name = ? WHERE id = ? AND display_name IS NULL").run(seed.display_name, personId);
+        }
+
+        for (const alias of seed.aliases) {
+          result.aliases_linked += insertAlias.run(personId, alias.kind, this.aliasKey(alias.kind, alias.alias), alias.alias).changes;
+        }
+      }
+    });
+    return result;
+  }
+
+  private personWithAliases(row: { id: number; display_name: string | null }): Person {
+    const aliases = this.prepare(`
+      SELECT kind, alias, source FROM person_aliases WHERE person_id = ? ORDER BY kind, alias_key
+    `).all(row.id) as PersonAlias[];
+    return {
+      ...row,
+      aliases: aliases.map((alias) => (alias.kind === "email" ? { ...alias, alias: this.decryptValue(alias.alias) } : alias)),
+    };
+  }
+
+  getPeople(): Person[] {
+    const rows = this.prepare("SELECT id, display_name FROM people ORDER BY display_name IS NULL, lower(display_name), id").all() as {
+      id: number;
+      display_name: string | null;
+    }[];
+    return rows.map((row) => this.personWithAliases(row));
+  }
+
+  getPerson(id: number): Person | null {
+    const row = this.prepare("SELECT id, display_name FROM people WHERE id = ?").get(id) as
+      | { id: number; display_name: string | null }
+      | undefined;
+    return row ? this.personWithAliases(row) : null;
+  }
+
+  /**
+   * People any alias of whom exactly matches `query` (case-insensitive,
+   * a leading "@" on handles ignored). Usually one; several means the name
+   * is ambiguous.
+   */
+  findPeople(query: string): Person[] {
+    const conditions = ALIAS_KINDS.map(() => "(a.kind = ? AND a.alias_key = ?)").join(" OR ");
+    const params = ALIAS_KINDS.flatMap((kind) => [kind, this.aliasKey(kind, query)]);
+    const rows = this.prepare(`
+      SELECT DISTINCT p.id, p.display_name FROM people p
+      JOIN person_aliases a ON a.person_id = p.id
+      WHERE ${conditions}
+      ORDER BY p.id
+    `).all(...params) as { id: number; display_name: string | null }[];
+    return rows.map((row) => this.personWithAliases(row));
+  }
+
+  createPerson(displayName: string | null, now: string = new Date().toISOString()): number {
+    const result = this.prepare("INSERT INTO people (display_name, created_at) VALUES (?, ?)").run(displayName, now);
+    return Number(result.lastInsertRowid);
+  }
+
+  // A name guessed from an email ("Dana Smith" from dana.smith@) spells out the address;
+  // it stays only where a speaker label or a manual alias says the same
+  private forgetEmailNames(): void {
+    const emails = this.prepare("SELECT person_id, alias FROM person_aliases WHERE kind = 'email' AND person_id IS NOT NULL").all() as {
+      person_id: number;
+      alias: string;
+    }[];
+    const confirmed = this.prepare(`
+      SELECT 1 FROM person_aliases WHERE person_id = ? AND alias_key = ? AND (kind = 'speaker' OR source = 'manual')
+    `);
+    const removeAlias = this.prepare("DELETE FROM person_aliases WHERE person_id = ? AND kind = 'name' AND source = 'auto' AND alias_key = ?");
+    const clearName = this.prepare("UPDATE people SET display_name = NULL WHERE id = ? AND display_name = ?");
+    for (const row of emails) {
+      const name = emailDisplayName(this.decryptValue(row.alias));
+      if (!name) continue;
+      const key = this.aliasKey("name", name);
+      if (confirmed.get(row.person_id, key)) continue;
+      removeAlias.run(row.person_id, key);
+      clearName.run(row.person_id, name);
+    }
+  }
+
+  setPersonName(id: number, displayName: string): void {
+    this.prepare("UPDATE people SET display_name = ? WHERE id = ?").run(displayName, id);
+  }
+
+  // Points an alias at a person, taking it from whoever had it; seeding never changes it afterwards
+  linkAlias(personId: number, kind: AliasKind, alias: string): void {
+    this.prepare(`
+      INSERT INTO person_aliases (person_id, kind, alias_key, alias, source) VALUES (?, ?, ?, ?, 'manual')
+      ON CONFLICT(kind, alias_key) DO UPDATE SET person_id = excluded.person_id, alias = excluded.alias, source = 'manual'
+    `).run(personId, kind, this.aliasKey(kind, alias), kind === "email" ? this.encryptValue(alias) : alias);
+  }
+
+  // Detaches an alias from everyone and stops seeding from linking it again
+  unlinkAlias(kind: AliasKind, alias: string): void {
+    this.prepare(`
+      INSERT INTO person_aliases (person_id, kind, alias_key, alias, source) VALUES (NULL, ?, ?, ?, 'manual')
+      ON CONFLICT(kind, alias_key) DO UPDATE SET person_id = NULL, source = 'manual'
+    `).run(kind, this.aliasKey(kind, alias), kind === "email" ? this.encryptValue(alias) : alias);
+  }
+
+  // Moves every alias of `fromId` to `intoId` and deletes `fromId`
+  mergePeople(intoId: number, fromId: number): void {
+    this.transaction(() => {
+      this.prepare("UPDATE person_aliases SET person_id = ? WHERE person_id = ?").run(intoId, fromId);
+      this.prepare(`
+        UPDATE people SET display_name = (SELECT display_name FROM people WHERE id = ?)
+        WHERE id = ? AND display_name IS NULL
+      `).run(fromId, intoId);
+      this.prepare("DELETE FROM people WHERE id = ?").run(fromId);
+    });
+  }
+
+  // Forgets the person with this email along with all their aliases; returns whether there was one
+  deletePersonByEmail(email: string): boolean {
+    return this.transaction(() => {
+      const row = this.prepare("SELECT person_id FROM person_aliases WHERE kind = 'email' AND alias_key = ?").get(
+        this.aliasKey("email", email)
+      ) as { person_id: number | null } | undefined;
+      if (!row || row.person_id === null) return false;
+      this.prepare("DELETE FROM person_aliases WHERE person_id = ?").run(row.person_id);
+      this.prepare("DELETE FROM people WHERE id = ?").run(row.person_id);
+      return true;
+    });
   }
 
   // Sync status
   getLastSyncTime(): string | null {
-    const stmt = this.db.prepare("SELECT value FROM sync_status WHERE key = 'last_sync'");
+    const stmt = this.prepare("SELECT value FROM sync_status WHERE key = 'last_sync'");
     const row = stmt.get() as { value: string } | undefined;
     return row?.value ?? null;
   }
 
   setLastSyncTime(time: string): void {
-    const stmt = this.db.prepare(`
+    const stmt = this.prepare(`
       INSERT INTO sync_status (key, value) VALUES ('last_sync', ?)
       ON CONFLICT(key) DO UPDATE SET value = excluded.value
     `);
     stmt.run(time);
   }
 
+  getSyncCheckpoint(): SyncCheckpoint | null {
+    const stmt = this.prepare("SELECT value FROM sync_status WHERE key = 'checkpoint'");
+    const row = stmt.get() as { value: string } | undefined;
+    return row ? (JSON.parse(row.value) as SyncCheckpoint) : null;
+  }
+
+  setSyncCheckpoint(checkpoint: SyncCheckpoint): void {
+    const stmt = this.prepare(`
+      INSERT INTO sync_status (key, value) VALUES ('checkpoint', ?)
+      ON CONFLICT(key) DO UPDATE SET value = excluded.value
+    `);
+    stmt.run(JSON.stringify(checkpoint));
+  }
+
+  clearSyncCheckpoint(): void {
+    this.prepare("DELETE FROM sync_status WHERE key = 'checkpoint'").run();
+  }
+
+  getSyncScope(): SyncScope | null {
+    const stmt = this.prepare("SELECT value FROM sync_status WHERE key = 'scope'");
+    const row = stmt.get() as { value: string } | undefined;
+    return row ? (JSON.parse(row.value) as SyncScope) : null;
+  }
+
+  setSyncScope(scope: SyncScope): void {
+    const stmt = this.prepare(`
+      INSERT INTO sync_status (key, value) VALUES ('scope', ?)
+      ON CONFLICT(key) DO UPDATE SET value = excluded.value
+    `);
+    stmt.run(JSON.stringify(scope));
+  }
+
+  clearSyncScope(): void {
+    this.prepare("DELETE FROM sync_status WHERE key = 'scope'").run();
+  }
+
+  // scopeKey() of the scope the last completed sync ran with
+  getSyncedScopeKey(): string | null {
+    const stmt = this.prepare("SELECT value FROM sync_status WHERE key = 'scope_key'");
+    const row = stmt.get() as { value: string } | undefined;
+    return row?.value ?? null;
+  }
+
+  setSyncedScopeKey(key: string): void {
+    const stmt = this.prepare(`
+      INSERT INTO sync_status (key, value) VALUES ('scope_key', ?)
+      ON CONFLICT(key) DO UPDATE SET value = excluded.value
+    `);
+    stmt.run(key);
+  }
+
+  getSyncCoverage(): SyncCoverage | null {
+    const stmt = this.prepare("SELECT value FROM sync_status WHERE key = 'sync_coverage'");
+    const row = stmt.get() as { value: string } | undefined;
+    return row ? (JSON.parse(row.value) as SyncCoverage) : null;
+  }
+
+  setSyncCoverage(coverage: SyncCoverage): void {
+    const stmt = this.prepare(`
+      INSERT INTO sync_status (key, value) VALUES ('sync_coverage', ?)
+      ON CONFLICT(key) DO UPDATE SET value = excluded.value
+    `);
+    stmt.run(JSON.stringify(coverage));
+  }
+
   // Stats
-  getStats(): { notes: number; recordings: number; action_items: number; participants: number } {
-    const notes = (this.db.prepare("SELECT COUNT(*) as count FROM notes").get() as { count: number }).count;
-    const recordings = (this.db.prepare("SELECT COUNT(*) as count FROM recordings").get() as { count: number }).count;
-    const action_items = (this.db.prepare("SELECT COUNT(*) as count FROM action_items").get() as { count: number }).count;
-    const participants = (this.db.prepare("SELECT COUNT(DISTINCT email) as count FROM participants").get() as { count: number }).count;
-    return { notes, recordings, action_items, participants };
+  getStats(): {
+    notes: number;
+    recordings: number;
+    action_items: number;
+    participants: number;
+    transcript_segments: number;
+    deleted_notes: number;
+    deleted_recordings: number;
+  } {
+    const notes = (this.prepare("SELECT COUNT(*) as count FROM notes WHERE deleted_at IS NULL").get() as { count: number }).count;
+    const recordings = (this.prepare("SELECT COUNT(*) as count FROM recordings WHERE deleted_at IS NULL").get() as { count: number }).count;
+    const action_items = (this.prepare("SELECT COUNT(*) as count FROM action_items WHERE removed_at IS NULL").get() as { count: number }).count;
+    const participants = (this.prepare("SELECT COUNT(DISTINCT email_key) as count FROM participants").get() as { count: number }).count;
+    const transcript_segments = (this.prepare("SELECT COUNT(*) as count FROM transcript_segments").get() as { count: number }).count;
+    const deleted_notes = (this.prepare("SELECT COUNT(*) as count FROM notes WHERE deleted_at IS NOT NULL").get() as { count: number }).count;
+    const deleted_recordings = (this.prepare("SELECT COUNT(*) as count FROM recordings WHERE deleted_at IS NOT NULL").get() as { count: number }).count;
+    return { notes, recordings, action_items, participants, transcript_segments, deleted_notes, deleted_recordings };
   }
 
   close(): void {
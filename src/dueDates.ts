@@ -0,0 +1,272 @@
+// Resolves due date phrases in action items ("by Friday", "EOW", "in 2 weeks", "Q3") to calendar dates
+
+export interface ParsedDueDate {
+  // Normalized due date, YYYY-MM-DD
+  date: string;
+  // The phrase as written in the note, e.g. "by next Tuesday"
+  phrase: string;
+}
+
+// What relative phrases are resolved against: the meeting's start time, read as a date in `timeZone`
+export interface DueDateReference {
+  date: string | null;
+  timeZone?: string;
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+};
+
+const KEYWORD = String.raw`\b(?:due(?:\s+(?:by|on|date))?|by|before|deadline|until|no\s+later\s+than)\s*:?\s*`;
+const MONTH_NAME = String.raw`(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\.?`;
+const WEEKDAY_NAME = String.raw`(mon(?:day)?|tue(?:s(?:day)?)?|wed(?:nesday)?|thu(?:r(?:s(?:day)?)?)?|fri(?:day)?|sat(?:urday)?|sun(?:day)?)`;
+const DAY = String.raw`(\d{1,2})(?:st|nd|rd|th)?`;
+const COUNT = String.raw`(\d+|${Object.keys(NUMBER_WORDS).join("|")})`;
+
+// Calendar dates are handled as UTC midnights so arithmetic never crosses a DST change
+function utcDate(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month, day));
+}
+
+function addDays(date: Date, days: number): Date {
+  return utcDate(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days);
+}
+
+function endOfMonth(year: number, month: number): Date {
+  return utcDate(year, month + 1, 0);
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+// The calendar day `reference` falls on in `timeZone`; today when there's no reference
+function referenceDay(reference: DueDateReference | undefined): Date {
+  const instant = reference?.date ? new Date(reference.date) : new Date();
+  const base = Number.isNaN(instant.getTime()) ? new Date() : instant;
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: reference?.timeZone,
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+  }).formatToParts(base);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)!.value);
+  return utcDate(part("year"), part("month") - 1, part("day"));
+}
+
+// A month/day without a year means its next occurrence on or after the reference day, or this year's with `rollForward` off
+function nextMonthDay(ref: Date, month: number, day: number, year: number | undefined, rollForward: boolean): Date | null {
+  if (month < 0 || month > 11 || day < 1 || day > 31) return null;
+  let date = utcDate(year ?? ref.getUTCFullYear(), month, day);
+  if (date.getUTCDate() !== day) return null;
+  if (year === undefined && rollForward && date < ref) {
+    date = utcDate(ref.getUTCFullYear() + 1, month, day);
+  }
+  return date;
+}
+
+function fullYear(raw: string | undefined): number | undefined {
+  if (!raw) return undefined;
+  const year = Number(raw);
+  return raw.length === 2 ? 2000 + year : year;
+}
+
+function count(raw: string): number {
+  return NUMBER_WORDS[raw.toLowerCase()] ?? Number(raw);
+}
+
+interface Rule {
+  pattern: RegExp;
+  resolve: (match: RegExpMatchArray, ref: Date) => Date | null;
+}
+
+type ExplicitResolve = (match: RegExpMatchArray, ref: Date, rollForward: boolean) => Date | null;
+
+/**
+ * An explicit date needs a keyword ("due Jan 15"), or must end the item set
+ * off by punctuation ("Ship pricing page - Jan 15", "Launch beta (Q3)").
+ * Without a keyword it is only a deadline if it is still ahead: past dates
+ * aren't moved to next year, and "from"/"since" dates never count.
+ */
+function explicitRules(body: string, resolve: ExplicitResolve): Rule[] {
+  return [
+    { pattern: new RegExp(String.raw`${KEYWORD}${body}\b`, "i"), resolve: (m, ref) => resolve(m, ref, true) },
+    {
+      pattern: new RegExp(
+        String.raw`(?<=(?:[,(:\u2013\u2014]|\s-)\s*)(?<!\b(?:from|since|after|as\s+of)\W*)${body}(?=\s*\)?[.!]?\s*$)`,
+        "i"
+      ),
+      resolve: (m, ref) => {
+        const date = resolve(m, ref, false);
+        return date && date >= ref ? date : null;
+      },
+    },
+  ];
+}
+
+/**
+ * Rules in priority order. Relative phrases ("today", "next week", "in 2
+ * days") are common in plain prose, so they need a keyword ("due", "by",
+ * "before", ...); explicit dates and quarters need one or must end the item
+ * after punctuation.
+ * Only deadline abbreviations (EOD, EOW, EOM, EOQ, EOY) stand on their own.
+ */
+const RULES: Rule[] = [
+  // 2024-01-15
+  ...explicitRules(String.raw`(\d{4})-(\d{2})-(\d{2})`, (m, ref, roll) =>
+    nextMonthDay(ref, Number(m[2]) - 1, Number(m[3]), Number(m[1]), roll)
+  ),
+  // 1/15/2024, 1/15/24, 1/15, but not fractions such as "1/2 of the team"
+  ...explicitRules(String.raw`(\d{1,2})\/(\d{1,2})(?:\/(\d{4}|\d{2}))?(?!\s*of\b)`, (m, ref, roll) =>
+    nextMonthDay(ref, Number(m[1]) - 1, Number(m[2]), fullYear(m[3]), roll)
+  ),
+  // Jan 15, January 15th, 2025
+  ...explicitRules(String.raw`${MONTH_NAME}\s+${DAY}(?:,?\s+(\d{4}))?`, (m, ref, roll) =>
+    nextMonthDay(ref, MONTHS.indexOf(m[1].slice(0, 3).toLowerCase()), Number(m[2]), fullYear(m[3]), roll)
+  ),
+  // 15 Jan, 15th of January 2025
+  ...explicitRules(String.raw`${DAY}\s+(?:of\s+)?${MONTH_NAME}(?:,?\s+(\d{4}))?`, (m, ref, roll) =>
+    nextMonthDay(ref, MONTHS.indexOf(m[2].slice(0, 3).toLowerCase()), Number(m[1]), fullYear(m[3]), roll)
+  ),
+  // Q3, end of Q1 2025: the last day of the quarter, next year if it has already ended
+  ...explicitRules(String.raw`(?:end\s+of\s+)?Q([1-4])(?:\s+(\d{4}))?`, (m, ref, roll) => {
+    const quarter = Number(m[1]);
+    const year = fullYear(m[2]);
+    let date = endOfMonth(year ?? ref.getUTCFullYear(), quarter * 3 - 1);
+    if (year === undefined && roll && date < ref) {
+      date = endOfMonth(ref.getUTCFullYear() + 1, quarter * 3 - 1);
+    }
+    return date;
+  }),
+  {
+    // EOD, by today, by end of day
+    pattern: new RegExp(String.raw`(?:${KEYWORD})?\beod\b|${KEYWORD}(?:today|end\s+of\s+(?:the\s+)?day)\b`, "i"),
+    resolve: (_m, ref) => ref,
+  },
+  {
+    pattern: new RegExp(String.raw`${KEYWORD}tomorrow\b`, "i"),
+    resolve: (_m, ref) => addDays(ref, 1),
+  },
+  {
+    // EOW, by end of (the) week, by end of next week: Friday
+    pattern: new RegExp(String.raw`(?:${KEYWORD})?\beow\b|${KEYWORD}end\s+of\s+(?:the\s+|this\s+)?(next\s+)?week\b`, "i"),
+    resolve: (m, ref) => {
+      const friday = addDays(ref, (5 - ref.getUTCDay() + 7) % 7);
+      return m[1] ? addDays(friday, 7) : friday;
+    },
+  },
+  {
+    // by next week: the Friday of the following week
+    pattern: new RegExp(String.raw`${KEYWORD}next\s+week\b`, "i"),
+    resolve: (_m, ref) => addDays(ref, ((5 - ref.getUTCDay() + 7) % 7) + 7),
+  },
+  {
+    // EOM, by end of (the) month, by end of next month
+    pattern: new RegExp(String.raw`(?:${KEYWORD})?\beom\b|${KEYWORD}end\s+of\s+(?:the\s+|this\s+)?(next\s+)?month\b`, "i"),
+    resolve: (m, ref) => endOfMonth(ref.getUTCFullYear(), ref.getUTCMonth() + (m[1] ? 1 : 0)),
+  },
+  {
+    pattern: new RegExp(String.raw`${KEYWORD}next\s+month\b`, "i"),
+    resolve: (_m, ref) => endOfMonth(ref.getUTCFullYear(), ref.getUTCMonth() + 1),
+  },
+  {
+    // EOQ, by end of (the) quarter
+    pattern: new RegExp(String.raw`(?:${KEYWORD})?\beoq\b|${KEYWORD}end\s+of\s+(?:the\s+|this\s+)?quarter\b`, "i"),
+    resolve: (_m, ref) => endOfMonth(ref.getUTCFullYear(), Math.floor(ref.getUTCMonth() / 3) * 3 + 2),
+  },
+  {
+    // EOY, by end of (the) year
+    pattern: new RegExp(String.raw`(?:${KEYWORD})?\beoy\b|${KEYWORD}end\s+of\s+(?:the\s+|this\s+)?year\b`, "i"),
+    resolve: (_m, ref) => utcDate(ref.getUTCFullYear(), 11, 31),
+  },
+  {
+    // due in 3 days, within two weeks, due in a month
+    pattern: new RegExp(String.raw`(?:${KEYWORD}in|(?:${KEYWORD})?\bwithin)\s+${COUNT}\s+(day|week|month)s?\b`, "i"),
+    resolve: (m, ref) => {
+      const n = count(m[1]);
+      const unit = m[2].toLowerCase();
+      if (unit === "day") return addDays(ref, n);
+      if (unit === "week") return addDays(ref, n * 7);
+      const target = utcDate(ref.getUTCFullYear(), ref.getUTCMonth() + n, 1);
+      return utcDate(
+        target.getUTCFullYear(),
+        target.getUTCMonth(),
+        Math.min(ref.getUTCDate(), endOfMonth(target.getUTCFullYear(), target.getUTCMonth()).getUTCDate())
+      );
+    },
+  },
+  {
+    // by next Tuesday: the Tuesday of the week after the reference week (weeks start on Monday)
+    pattern: new RegExp(String.raw`${KEYWORD}next\s+${WEEKDAY_NAME}\b`, "i"),
+    resolve: (m, ref) => {
+      const monday = addDays(ref, -((ref.getUTCDay() + 6) % 7));
+      const target = WEEKDAYS.indexOf(m[1].slice(0, 3).toLowerCase());
+      return addDays(monday, 7 + ((target + 6) % 7));
+    },
+  },
+  {
+    // by Friday: the next such day; by this Friday: the reference day itself when it is a Friday
+    pattern: new RegExp(String.raw`${KEYWORD}(this\s+)?${WEEKDAY_NAME}\b`, "i"),
+    resolve: (m, ref) => {
+      const target = WEEKDAYS.indexOf(m[2].slice(0, 3).toLowerCase());
+      const ahead = (target - ref.getUTCDay() + 7) % 7;
+      return addDays(ref, ahead === 0 && !m[1] ? 7 : ahead);
+    },
+  },
+];
+
+/**
+ * Finds a due date in action item text. Relative phrases are resolved
+ * against the reference date (the meeting's start) as a calendar day in the
+ * reference time zone. Returns the first rule that matches, with the phrase
+ * as written.
+ */
+export function parseDueDate(text: string, reference?: DueDateReference): ParsedDueDate | null {
+  let ref: Date | null = null;
+  for (const rule of RULES) {
+    const match = text.match(rule.pattern);
+    if (!match) continue;
+    ref ??= referenceDay(reference);
+    const date = rule.resolve(match, ref);
+    if (date) {
+      return { date: formatDate(date), phrase: match[0].trim() };
+    }
+  }
+  return null;
+}
+
+// Today's date (YYYY-MM-DD) in `timeZone`, for comparing against due dates
+export function todayIn(timeZone?: string): string {
+  return formatDate(referenceDay({ date: null, timeZone }));
+}
+
+// Moves a YYYY-MM-DD date by whole days
+export function shiftDate(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return formatDate(utcDate(year, month - 1, day + days));
+}
+
+// Rejects zone names Intl doesn't know, so a typo fails loudly instead of shifting dates
+export function validateTimeZone(timeZone: string): string {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+  } catch {
+    throw new Error(`Unknown time zone "${timeZone}": use an IANA name such as "America/New_York"`);
+  }
+  return timeZone;
+}
@@ -0,0 +1,98 @@
+import crypto from "crypto";
+
+// Encrypted column values look like `enc:v1:<base64 of iv + auth tag + ciphertext>`
+const ENCRYPTED_PREFIX = "enc:v1:";
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const SALT_LENGTH = 16;
+const KEY_CHECK_LABEL = "fellow-mcp key check";
+
+// Stored with the database so the same secret derives the same keys, and a wrong secret is caught on open
+export interface EncryptionRecord {
+  salt: string;
+  check: string;
+}
+
+export class EncryptionKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EncryptionKeyError";
+  }
+}
+
+export function isEncrypted(value: string): boolean {
+  return value.startsWith(ENCRYPTED_PREFIX);
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * AES-256-GCM encryption for individual column values, with keys derived from
+ * a secret via scrypt. Also produces keyed hashes of emails so encrypted
+ * participant rows can still be looked up by address.
+ */
+export class FieldCipher {
+  private encryptionKey: Buffer;
+  private macKey: Buffer;
+  readonly record: EncryptionRecord;
+
+  private constructor(secret: string, salt: Buffer) {
+    if (!secret) {
+      throw new EncryptionKeyError("Encryption key must not be empty");
+    }
+    const derived = crypto.scryptSync(secret, salt, 64);
+    this.encryptionKey = derived.subarray(0, 32);
+    this.macKey = derived.subarray(32);
+    this.record = { salt: salt.toString("base64"), check: this.mac(KEY_CHECK_LABEL) };
+  }
+
+  // New keys with a fresh salt, for a database that isn't encrypted yet or is being re-keyed
+  static create(secret: string): FieldCipher {
+    return new FieldCipher(secret, crypto.randomBytes(SALT_LENGTH));
+  }
+
+  // Keys for an already encrypted database; throws if the secret doesn't match
+  static open(secret: string, record: EncryptionRecord): FieldCipher {
+    const cipher = new FieldCipher(secret, Buffer.from(record.salt, "base64"));
+    const expected = Buffer.from(record.check, "base64");
+    const actual = Buffer.from(cipher.record.check, "base64");
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      throw new EncryptionKeyError("Encryption key does not match the one this database was encrypted with");
+    }
+    return cipher;
+  }
+
+  encrypt(value: string): string {
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv("aes-256-gcm", this.encryptionKey, iv);
+    const ciphertext = Buffer.concat([cipher.update(value, "utf8"), cipher.final()]);
+    return ENCRYPTED_PREFIX + Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64");
+  }
+
+  // Plaintext values (written before encryption was enabled) pass through unchanged
+  decrypt(value: string): string {
+    if (!isEncrypted(value)) {
+      return value;
+    }
+    const data = Buffer.from(value.slice(ENCRYPTED_PREFIX.length), "base64");
+    const decipher = crypto.createDecipheriv("aes-256-gcm", this.encryptionKey, data.subarray(0, IV_LENGTH));
+    decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+    return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]).toString("utf8");
+  }
+
+  // Stable lookup key for an email address; reveals nothing without the secret
+  emailKey(email: string): string {
+    return this.lookupKey(normalizeEmail(email));
+  }
+
+  // Keyed hash of an identifier derived from encrypted data, so it can be stored without leaking it
+  lookupKey(value: string): string {
+    return this.mac(value);
+  }
+
+  private mac(value: string): string {
+    return crypto.createHmac("sha256", this.macKey).update(value).digest("base64");
+  }
+}
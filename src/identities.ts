@@ -0,0 +1,156 @@
+import { FellowDatabase, PersonSeed } from "./database.js";
+import { normalizeEmail } from "./encryption.js";
+
+// Links the ways people are written in meetings (@handles, speaker labels, names) to participant emails
+
+interface IdentitySources {
+  participants: { note_id: string; email: string }[];
+  mentions: { note_id: string; handle: string }[];
+  speakers: { note_id: string; speaker: string }[];
+}
+
+// "dana.smith+fellow@x.com" -> ["dana", "smith"]
+function emailTokens(email: string): string[] {
+  const local = normalizeEmail(email).split("@")[0].split("+")[0];
+  return local
+    .split(/[._-]+/)
+    .map((token) => token.replace(/[^a-z]/g, ""))
+    .filter(Boolean);
+}
+
+// "Dana S." -> ["dana", "s"]
+function nameTokens(name: string): string[] {
+  return name
+    .toLowerCase()
+    .split(/[^\p{L}]+/u)
+    .filter(Boolean);
+}
+
+function titleCase(tokens: string[]): string {
+  return tokens.map((token) => token[0].toUpperCase() + token.slice(1)).join(" ");
+}
+
+// The name an email address suggests, "dana.smith@x.com" -> "Dana Smith"
+export function emailDisplayName(email: string): string | null {
+  const tokens = emailTokens(email);
+  return tokens.length > 0 ? titleCase(tokens) : null;
+}
+
+// "dana", "danasmith" and "dsmith" all fit dana.smith@
+function handleFits(handle: string, tokens: string[]): boolean {
+  if (tokens.length === 0) return false;
+  const last = tokens[tokens.length - 1];
+  return (
+    handle === tokens[0] ||
+    handle === tokens.join("") ||
+    (tokens.length > 1 && handle === tokens[0][0] + last)
+  );
+}
+
+// "Dana", "Dana Smith" and "Dana S." all fit dana.smith@, "Dana Jones" doesn't
+function speakerFits(label: string[], tokens: string[]): boolean {
+  if (label.length === 0 || tokens.length === 0 || label[0] !== tokens[0]) return false;
+  if (label.length === 1 || tokens.length === 1) return true;
+  const a = label[label.length - 1];
+  const b = tokens[tokens.length - 1];
+  return a.startsWith(b) || b.startsWith(a);
+}
+
+function groupNotes<T>(rows: T[], key: (row: T) => string, noteId: (row: T) => string): Map<string, Set<string>> {
+  const groups = new Map<string, Set<string>>();
+  for (const row of rows) {
+    const k = key(row);
+    if (!groups.has(k)) groups.set(k, new Set());
+    groups.get(k)!.add(noteId(row));
+  }
+  return groups;
+}
+
+/**
+ * The email whose name fits and that shares the most notes with the alias.
+ * No co-occurrence, or a tie between two emails, links nothing: better to
+ * leave an alias for update_identity than to guess.
+ */
+function bestMatch(aliasNotes: Set<string>, candidates: string[], emailNotes: Map<string, Set<string>>): string | null {
+  let best: string | null = null;
+  let bestScore = 0;
+  let tied = false;
+  for (const email of candidates) {
+    let score = 0;
+    for (const noteId of emailNotes.get(email)!) {
+      if (aliasNotes.has(noteId)) score++;
+    }
+    if (score > bestScore) {
+      best = email;
+      bestScore = score;
+      tied = false;
+    } else if (score === bestScore && score > 0) {
+      tied = true;
+    }
+  }
+  return tied ? null : best;
+}
+
+/**
+ * Works out a seed per participant email from which handles and speakers
+ * appear in the same meetings. A person with no full speaker name is named
+ * after their email address unless `namesFromEmail` is off, as it is for
+ * encrypted databases, where the name would give the address away.
+ */
+export function buildIdentitySeeds(sources: IdentitySources, options: { namesFromEmail?: boolean } = {}): PersonSeed[] {
+  const namesFromEmail = options.namesFromEmail ?? true;
+  const emailNotes = groupNotes(sources.participants, (row) => normalizeEmail(row.email), (row) => row.note_id);
+  const handleNotes = groupNotes(sources.mentions, (row) => row.handle.toLowerCase(), (row) => row.note_id);
+  const speakerNotes = groupNotes(sources.speakers, (row) => row.speaker.trim(), (row) => row.note_id);
+
+  const seeds = new Map<string, PersonSeed>();
+  const tokens = new Map<string, string[]>();
+  for (const email of emailNotes.keys()) {
+    tokens.set(email, emailTokens(email));
+    seeds.set(email, { email, display_name: null, aliases: [] });
+  }
+  const emails = [...emailNotes.keys()];
+
+  for (const [handle, notes] of handleNotes) {
+    const candidates = emails.filter((email) => handleFits(handle, tokens.get(email)!));
+    const match = bestMatch(notes, candidates, emailNotes);
+    if (match) seeds.get(match)!.aliases.push({ kind: "handle", alias: handle });
+  }
+
+  for (const [speaker, notes] of speakerNotes) {
+    const label = nameTokens(speaker);
+    const candidates = emails.filter((email) => speakerFits(label, tokens.get(email)!));
+    const match = bestMatch(notes, candidates, emailNotes);
+    if (!match) continue;
+    const seed = seeds.get(match)!;
+    seed.aliases.push({ kind: "speaker", alias: speaker });
+    // A full speaker name beats one guessed from the email
+    if (label.length > 1 && (!seed.display_name || seed.display_name.length < speaker.length)) {
+      seed.display_name = speaker;
+    }
+  }
+
+  for (const [email, seed] of seeds) {
+    if (!seed.display_name && namesFromEmail) {
+      seed.display_name = emailDisplayName(email);
+    }
+    if (seed.display_name) {
+      seed.aliases.push({ kind: "name", alias: seed.display_name });
+    }
+  }
+
+  return [...seeds.values()];
+}
+
+/**
+ * Links the people in `noteIds` without touching existing links, or, with no
+ * notes given, re-derives every automatic link from everything cached.
+ * Manual edits are kept either way.
+ */
+export function seedIdentities(db: FellowDatabase, noteIds?: string[]): { people_created: number; aliases_linked: number } {
+  if (noteIds?.length === 0) {
+    return { people_created: 0, aliases_linked: 0 };
+  }
+  const seeds = buildIdentitySeeds(db.getIdentitySources(noteIds), { namesFromEmail: !db.isEncryptionEnabled() });
+  return db.applyIdentitySeeds(seeds, noteIds === undefined);
+}
@@ -2,210 +2,40 @@
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import fs from "fs";
+import os from "os";
+import path from "path";
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ProgressToken,
+  ServerNotification,
   Tool,
 } from "@modelcontextprotocol/sdk/types.js";
-import { FellowDatabase } from "./database.js";
-
-// Types for Fellow API responses
-interface SpeechSegment {
-  speaker: string;
-  text: string;
-  start_time: number;
-  end_time: number;
-}
-
-interface Transcript {
-  language_code: string;
-  speech_segments: SpeechSegment[];
-}
-
-interface Recording {
-  id: string;
-  title: string;
-  note_id: string;
-  created_at: string;
-  updated_at: string;
-  event_start?: string;
-  event_end?: string;
-  recording_start?: string;
-  recording_end?: string;
-  event_guid?: string;
-  call_url?: string;
-  transcript?: Transcript;
-}
-
-interface Note {
-  id: string;
-  title: string;
-  created_at: string;
-  updated_at: string;
-  event_start?: string;
-  event_end?: string;
-  event_guid?: string;
-  call_url?: string;
-  recording_ids?: string[];
-  content_markdown?: string;
-  event_attendees?: string[];
-}
-
-interface PageInfo {
-  cursor: string | null;
-  page_size: number;
-}
-
-interface RecordingsResponse {
-  recordings: {
-    page_info: PageInfo;
-    data: Recording[];
-  };
-}
-
-interface NotesResponse {
-  notes: {
-    page_info: PageInfo;
-    data: Note[];
-  };
-}
-
-// Fellow API Client
-class FellowClient {
-  private apiKey: string;
-  private baseUrl: string;
-
-  constructor(apiKey: string, subdomain: string) {
-    this.apiKey = apiKey;
-    this.baseUrl = `https://${subdomain}.fellow.app/api/v1`;
-  }
-
-  private async request<T>(
-    method: string,
-    endpoint: string,
-    body?: unknown
-  ): Promise<T> {
-    const url = `${this.baseUrl}${endpoint}`;
-    const options: RequestInit = {
-      method,
-      headers: {
-        "X-API-KEY": this.apiKey,
-        "Content-Type": "application/json",
-      },
-    };
-
-    if (body) {
-      options.body = JSON.stringify(body);
-    }
-
-    const response = await fetch(url, options);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(
-        `Fellow API error (${response.status}): ${errorText}`
-      );
-    }
-
-    return response.json() as Promise<T>;
-  }
-
-  async listRecordings(options: {
-    title?: string;
-    created_at_start?: string;
-    created_at_end?: string;
-    updated_at_start?: string;
-    updated_at_end?: string;
-    event_guid?: string;
-    channel_id?: string;
-    include_transcript?: boolean;
-    cursor?: string;
-    page_size?: number;
-  }): Promise<RecordingsResponse> {
-    const body: Record<string, unknown> = {};
-
-    // Build filters
-    const filters: Record<string, string> = {};
-    if (options.title) filters.title = options.title;
-    if (options.created_at_start) filters.created_at_start = options.created_at_start;
-    if (options.created_at_end) filters.created_at_end = options.created_at_end;
-    if (options.updated_at_start) filters.updated_at_start = options.updated_at_start;
-    if (options.updated_at_end) filters.updated_at_end = options.updated_at_end;
-    if (options.event_guid) filters.event_guid = options.event_guid;
-    if (options.channel_id) filters.channel_id = options.channel_id;
-
-    if (Object.keys(filters).length > 0) {
-      body.filters = filters;
-    }
-
-    // Build include
-    if (options.include_transcript) {
-      body.include = { transcript: true };
-    }
-
-    // Build pagination
-    body.pagination = {
-      cursor: options.cursor ?? null,
-      page_size: options.page_size ?? 20,
-    };
-
-    return this.request<RecordingsResponse>("POST", "/recordings", body);
-  }
-
-  async getRecording(recordingId: string): Promise<Recording> {
-    return this.request<Recording>("GET", `/recording/${recordingId}`);
-  }
-
-  async listNotes(options: {
-    title?: string;
-    created_at_start?: string;
-    created_at_end?: string;
-    updated_at_start?: string;
-    updated_at_end?: string;
-    event_guid?: string;
-    channel_id?: string;
-    include_content?: boolean;
-    include_attendees?: boolean;
-    cursor?: string;
-    page_size?: number;
-  }): Promise<NotesResponse> {
-    const body: Record<string, unknown> = {};
-
-    // Build filters
-    const filters: Record<string, string> = {};
-    if (options.title) filters.title = options.title;
-    if (options.created_at_start) filters.created_at_start = options.created_at_start;
-    if (options.created_at_end) filters.created_at_end = options.created_at_end;
-    if (options.updated_at_start) filters.updated_at_start = options.updated_at_start;
-    if (options.updated_at_end) filters.updated_at_end = options.updated_at_end;
-    if (options.event_guid) filters.event_guid = options.event_guid;
-    if (options.channel_id) filters.channel_id = options.channel_id;
-
-    if (Object.keys(filters).length > 0) {
-      body.filters = filters;
-    }
-
-    // Build include
-    const include: Record<string, boolean> = {};
-    if (options.include_content) include.content_markdown = true;
-    if (options.include_attendees) include.event_attendees = true;
-    if (Object.keys(include).length > 0) {
-      body.include = include;
-    }
-
-    // Build pagination
-    body.pagination = {
-      cursor: options.cursor ?? null,
-      page_size: options.page_size ?? 20,
-    };
-
-    return this.request<NotesResponse>("POST", "/notes", body);
-  }
-
-  async getNote(noteId: string): Promise<Note> {
-    return this.request<Note>("GET", `/note/${noteId}`);
-  }
-}
+import { FellowClient, Note, Recording } from "./client.js";
+import { extractActionItems } from "./actionItems.js";
+import { SpeakingStats, combineSpeakingStats, computeSpeakingStats } from "./analytics.js";
+import { ActionItemEvent, ALIAS_KINDS, AliasKind, defaultDatabasePath, FellowDatabase, Person } from "./database.js";
+import { shiftDate, todayIn, validateTimeZone } from "./dueDates.js";
+import { seedIdentities } from "./identities.js";
+import { MeetingResolver, Resolved, describeSource } from "./resolver.js";
+import { applyRetention, describeRetention, executePurge, planPurge } from "./retention.js";
+import { SyncScheduler } from "./scheduler.js";
+import { DEFAULT_CONFIG_PATH, describeScope, FileConfig, loadConfigFile, normalizeScope, SyncScope } from "./scope.js";
+import { emptySyncResult, performIncrementalSync, syncNotesFromApi, SyncProgress, SyncResult } from "./sync.js";
+import {
+  decodeTranscriptCursor,
+  encodeTranscriptCursor,
+  exportTranscript,
+  formatTime,
+  formatTranscript,
+  pageTranscript,
+  parseTimestamp,
+  TRANSCRIPT_EXPORT_EXTENSIONS,
+  TRANSCRIPT_EXPORT_FORMATS,
+  TranscriptExportFormat,
+  TranscriptWindow,
+} from "./transcripts.js";
 
 // Tool definitions
 const tools: Tool[] = [
@@ -238,7 +68,7 @@ const tools: Tool[] = [
   {
     name: "get_meeting_transcript",
     description:
-      "Get the full transcript of a meeting recording. Returns diarized (speaker-labeled) and timestamped transcript segments.",
+      "Get the transcript of a meeting recording. Returns diarized (speaker-labeled) and timestamped transcript segments, paginated for long recordings. When more segments remain, the response includes a cursor to pass back for the next page.",
     inputSchema: {
       type: "object",
       properties: {
@@ -250,13 +80,77 @@ const tools: Tool[] = [
           type: "string",
           description: "Alternatively, search by meeting title to find and return the transcript",
         },
+        start_time: {
+          type: "string",
+          description: "Only return segments from this point in the recording (seconds, mm:ss, or hh:mm:ss)",
+        },
+        end_time: {
+          type: "string",
+          description: "Only return segments up to this point in the recording (seconds, mm:ss, or hh:mm:ss)",
+        },
+        speaker: {
+          type: "string",
+          description: "Only return segments spoken by this speaker (partial match)",
+        },
+        merge_speakers: {
+          type: "boolean",
+          description: "If true, merges consecutive segments by the same speaker into one. Default is false.",
+        },
+        offset: {
+          type: "number",
+          description: "Number of segments to skip (default 0)",
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of segments to return (default 200)",
+        },
+        cursor: {
+          type: "string",
+          description: "Continuation cursor from a previous response. When set, all other arguments are taken from the cursor.",
+        },
+        fresh: {
+          type: "boolean",
+          description: "If true, bypasses the local cache and fetches from the Fellow API. Default is false (cached data is used when recently synced).",
+        },
+      },
+    },
+  },
+  {
+    name: "export_transcript",
+    description:
+      "Export a meeting transcript in a standard format: WebVTT (with speaker voice tags), SRT, JSON, Markdown, or plain text, using HH:MM:SS.mmm timestamps. Writes to a file in the export directory when output_path is given, otherwise returns the content.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        recording_id: {
+          type: "string",
+          description: "The ID of the recording to export",
+        },
+        meeting_title: {
+          type: "string",
+          description: "Alternatively, search by meeting title to find the recording",
+        },
+        format: {
+          type: "string",
+          enum: TRANSCRIPT_EXPORT_FORMATS,
+          description: "Export format: vtt, srt, json, markdown, or txt",
+        },
+        output_path: {
+          type: "string",
+          description: "File path to write the export to, relative to the export directory (~/.fellow-mcp/exports unless FELLOW_EXPORT_DIR is set) and inside it. A directory path gets a file named after the recording ID. If omitted, the content is returned.",
+        },
+        overwrite: {
+          type: "boolean",
+          description: "If true, replaces an existing file at output_path. Default is false, which fails instead.",
+        },
       },
+      required: ["format"],
     },
   },
   {
     name: "get_meeting_summary",
     description:
-      "Get the meeting summary/notes content. Returns the structured notes including agenda items, discussion topics, and decisions made.",
+      "Get the meeting summary/notes content. Returns the structured notes including agenda items, discussion topics, and decisions made. The transcript is only appended when include_transcript is true; use get_meeting_transcript to page through long transcripts.",
     inputSchema: {
       type: "object",
       properties: {
@@ -272,6 +166,14 @@ const tools: Tool[] = [
           type: "string",
           description: "Alternatively, search by meeting title to find and return the summary",
         },
+        include_transcript: {
+          type: "boolean",
+          description: "If true, appends the full recording transcript after the notes. Default is false.",
+        },
+        fresh: {
+          type: "boolean",
+          description: "If true, bypasses the local cache and fetches from the Fellow API. Default is false (cached data is used when recently synced).",
+        },
       },
     },
   },
@@ -290,6 +192,10 @@ const tools: Tool[] = [
           type: "string",
           description: "Alternatively, search by meeting title to find and return action items",
         },
+        fresh: {
+          type: "boolean",
+          description: "If true, bypasses the local cache and fetches from the Fellow API. Default is false (cached data is used when recently synced).",
+        },
       },
     },
   },
@@ -308,19 +214,55 @@ const tools: Tool[] = [
           type: "string",
           description: "Alternatively, search by meeting title to find and return participants",
         },
+        fresh: {
+          type: "boolean",
+          description: "If true, bypasses the local cache and fetches from the Fellow API. Default is false (cached data is used when recently synced).",
+        },
       },
     },
   },
   {
     name: "sync_meetings",
     description:
-      "Sync meetings from Fellow API to local database. By default does incremental sync (only new/updated since last sync). Use force=true for full re-sync.",
+      "Sync meetings from Fellow API to local database. By default does incremental sync (only new/updated since last sync). Use force=true for full re-sync, which also detects notes and recordings deleted or moved in Fellow.",
     inputSchema: {
       type: "object",
       properties: {
         force: {
           type: "boolean",
-          description: "If true, performs a full sync clearing and re-fetching all data. Default is false (incremental).",
+          description: "If true, re-fetches all data and reconciles deletions. Default is false (incremental).",
+        },
+        scope: {
+          type: "object",
+          description: "Limits which meetings are synced and cached. Saved and applied to all later syncs until changed or cleared. Not allowed when the config file defines sync_scope.",
+          properties: {
+            channel_id: {
+              type: "string",
+              description: "Only sync meetings from this Fellow channel",
+            },
+            max_age_days: {
+              type: "number",
+              description: "Only sync meetings created within the last N days",
+            },
+            exclude_title_patterns: {
+              type: "array",
+              items: { type: "string" },
+              description: "Skip meetings whose title matches any of these regular expressions (case-insensitive), e.g. \"Interview\"",
+            },
+            participants: {
+              type: "array",
+              items: { type: "string" },
+              description: "Only sync meetings attended by at least one of these email addresses",
+            },
+          },
+        },
+        clear_scope: {
+          type: "boolean",
+          description: "If true, removes the saved scope so the whole workspace is synced again.",
+        },
+        reconcile: {
+          type: "boolean",
+          description: "If true, compares all note and recording IDs in Fellow with the local database and marks missing ones as deleted. Always done when force=true.",
         },
         include_transcripts: {
           type: "boolean",
@@ -332,7 +274,7 @@ const tools: Tool[] = [
   {
     name: "get_all_action_items",
     description:
-      "Get all action items from the local database. Automatically performs incremental sync first to ensure data is fresh. Can filter by assignee, completion status, or date range.",
+      "Get all action items from the local database. Automatically performs incremental sync first to ensure data is fresh, unless background sync is enabled. Can filter by assignee or person (by email or any name they go by), completion status, meeting date, or due date (overdue, due within N days, no due date), and sort by due date.",
     inputSchema: {
       type: "object",
       properties: {
@@ -340,6 +282,10 @@ const tools: Tool[] = [
           type: "string",
           description: "Filter by assignee name (partial match)",
         },
+        person: {
+          type: "string",
+          description: "Filter by person: an email, @handle, name or transcript speaker label. Matches every way that person has been written in action items, using the identity table (see get_people).",
+        },
         show_completed: {
           type: "boolean",
           description: "If true, includes completed action items. Default is false (only incomplete).",
@@ -348,6 +294,80 @@ const tools: Tool[] = [
           type: "string",
           description: "Only return action items from meetings on or after this date (ISO format: YYYY-MM-DD)",
         },
+        include_deleted: {
+          type: "boolean",
+          description: "If true, also includes meetings that were deleted in Fellow (kept locally as tombstones). Default is false.",
+        },
+        overdue: {
+          type: "boolean",
+          description: "Only incomplete items whose due date has passed. Combined with the other due filters using OR.",
+        },
+        due_within_days: {
+          type: "number",
+          description: "Only items due between today and N days from now. Combined with the other due filters using OR.",
+        },
+        no_due_date: {
+          type: "boolean",
+          description: "Only items without a due date. Combined with the other due filters using OR.",
+        },
+        sort_by: {
+          type: "string",
+          enum: ["meeting_date", "due_date"],
+          description: "meeting_date (default) groups items by meeting, newest first; due_date lists items by due date, soonest first, with undated items last.",
+        },
+      },
+    },
+  },
+  {
+    name: "get_my_week",
+    description:
+      "A compact weekly digest of open action items grouped by due date: overdue, due today, due in the coming days, later, and without a due date. Automatically performs incremental sync first, unless background sync is enabled.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        assignee: {
+          type: "string",
+          description: "Whose action items to include (partial match on assignee name). Default is everyone's.",
+        },
+        person: {
+          type: "string",
+          description: "Whose action items to include: an email, @handle, name or transcript speaker label. Matches every way that person has been written in action items, using the identity table (see get_people).",
+        },
+        days: {
+          type: "number",
+          description: "How many days ahead count as this week. Default is 7.",
+        },
+      },
+    },
+  },
+  {
+    name: "get_action_item_history",
+    description:
+      "Show how action items changed over time: when they were first seen, completed, reopened, reworded or removed from their meeting notes. Answers questions like \"what did we close this week\" and reports how long items stay open. Uses the local database.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        since: {
+          type: "string",
+          description: "Only include changes on or after this date (ISO format: YYYY-MM-DD)",
+        },
+        until: {
+          type: "string",
+          description: "Only include changes on or before this date (ISO format: YYYY-MM-DD)",
+        },
+        events: {
+          type: "array",
+          items: { type: "string", enum: ["first_seen", "completed", "reopened", "reworded", "removed", "restored"] },
+          description: "Only include these kinds of change. Default is all.",
+        },
+        assignee: {
+          type: "string",
+          description: "Filter by assignee name (partial match)",
+        },
+        include_deleted: {
+          type: "boolean",
+          description: "If true, also includes meetings that were deleted in Fellow. Default is false.",
+        },
       },
     },
   },
@@ -367,6 +387,10 @@ const tools: Tool[] = [
           type: "boolean",
           description: "If true, only return meetings where ALL specified participants attended. Default is false (any match).",
         },
+        include_deleted: {
+          type: "boolean",
+          description: "If true, also includes meetings that were deleted in Fellow (kept locally as tombstones). Default is false.",
+        },
       },
       required: ["emails"],
     },
@@ -374,18 +398,114 @@ const tools: Tool[] = [
   {
     name: "search_cached_notes",
     description:
-      "Full-text search across all cached meeting notes. Searches titles and content.",
+      "Full-text search across all cached meeting notes. Searches titles and content, ranks results by relevance, and returns highlighted snippets.",
     inputSchema: {
       type: "object",
       properties: {
         query: {
           type: "string",
-          description: "Search query to find in meeting titles or content",
+          description: "Search query to find in meeting titles or content. Supports \"exact phrases\", AND/OR/NOT, and prefix* matching.",
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of meetings to return (default 20)",
+        },
+        include_deleted: {
+          type: "boolean",
+          description: "If true, also includes meetings that were deleted in Fellow (kept locally as tombstones). Default is false.",
         },
       },
       required: ["query"],
     },
   },
+  {
+    name: "search_transcripts",
+    description:
+      "Search cached meeting transcripts for words or phrases. Returns each matching speech segment with the meeting title, speaker, timestamp, and surrounding segments for context. Requires transcripts to have been synced (sync_meetings with include_transcripts=true).",
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "Words or phrase to search for. Supports \"exact phrases\", AND/OR/NOT, and prefix* matching.",
+        },
+        speaker: {
+          type: "string",
+          description: "Only return segments spoken by this speaker (partial match)",
+        },
+        since: {
+          type: "string",
+          description: "Only search meetings on or after this date (ISO format: YYYY-MM-DD)",
+        },
+        until: {
+          type: "string",
+          description: "Only search meetings on or before this date (ISO format: YYYY-MM-DD)",
+        },
+        participant: {
+          type: "string",
+          description: "Only search meetings attended by this email address",
+        },
+        context: {
+          type: "number",
+          description: "Number of segments to show before and after each hit (default 1)",
+        },
+        sort: {
+          type: "string",
+          enum: ["recent", "relevance"],
+          description: "Order hits by meeting date (most recent first) or by relevance. Default is recent.",
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of hits to return (default 20)",
+        },
+      },
+      required: ["query"],
+    },
+  },
+  {
+    name: "get_speaking_stats",
+    description:
+      "Get speaker talk-time and participation stats from meeting transcripts: total talk time, share of the meeting, number of turns, longest monologue, and interruptions (overlapping speech). Works for a single meeting, or across cached meetings in a date range and/or a recurring series matched by title.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        recording_id: {
+          type: "string",
+          description: "Stats for a single recording",
+        },
+        note_id: {
+          type: "string",
+          description: "Stats for the recording attached to this note",
+        },
+        series_title: {
+          type: "string",
+          description: "Aggregate across cached meetings whose title contains this text (e.g. a recurring 1:1 or standup)",
+        },
+        since: {
+          type: "string",
+          description: "Aggregate across cached meetings on or after this date (ISO format: YYYY-MM-DD)",
+        },
+        until: {
+          type: "string",
+          description: "Aggregate across cached meetings on or before this date (ISO format: YYYY-MM-DD)",
+        },
+      },
+    },
+  },
+  {
+    name: "get_people",
+    description:
+      "List the people known to the local database with every way they are referred to: @mention handles in action items, display names, transcript speaker labels and emails. Links are seeded automatically from who appears in the same meetings after each sync and can be corrected with update_identity.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "Only show people with this exact email, handle, name or speaker label (case-insensitive)",
+        },
+      },
+    },
+  },
   {
     name: "get_sync_status",
     description:
@@ -395,6 +515,82 @@ const tools: Tool[] = [
       properties: {},
     },
   },
+  {
+    name: "purge_cache",
+    description:
+      "Permanently delete cached meetings (notes with their recordings, transcripts, action items and participants) from the local database, e.g. for right-to-be-forgotten requests. All given filters must match. Runs as a dry run unless dry_run=false. Purged meetings are not synced again.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        note_ids: {
+          type: "array",
+          items: { type: "string" },
+          description: "Purge these notes",
+        },
+        title_pattern: {
+          type: "string",
+          description: "Purge meetings whose title matches this regular expression (case-insensitive)",
+        },
+        since: {
+          type: "string",
+          description: "Purge meetings on or after this date (ISO format: YYYY-MM-DD)",
+        },
+        until: {
+          type: "string",
+          description: "Purge meetings on or before this date (ISO format: YYYY-MM-DD)",
+        },
+        participant_email: {
+          type: "string",
+          description: "Purge every meeting this email address attended",
+        },
+        dry_run: {
+          type: "boolean",
+          description: "If true, only reports what would be deleted. Default is true; set to false to delete.",
+        },
+        allow_resync: {
+          type: "boolean",
+          description: "If true, purged meetings may be downloaded again by later syncs. Default is false.",
+        },
+      },
+    },
+  },
+  {
+    name: "update_identity",
+    description:
+      "Correct who is who in the identity table: link an alias (handle, name, speaker label or email) to a person, unlink a wrongly seeded alias, rename or merge people, or re-run automatic seeding. Manual changes are kept when seeding runs again.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        action: {
+          type: "string",
+          enum: ["link", "unlink", "rename", "merge", "reseed"],
+          description: "link: attach alias to person (a new person when person is omitted); unlink: detach alias and never link it automatically again; rename: set person's display name; merge: fold merge_with into person; reseed: re-derive automatic links",
+        },
+        person: {
+          type: "string",
+          description: "The person to change: their ID from get_people, or an email, handle, name or speaker label that identifies them",
+        },
+        kind: {
+          type: "string",
+          enum: ["handle", "name", "speaker", "email"],
+          description: "Kind of alias, for link and unlink",
+        },
+        alias: {
+          type: "string",
+          description: "The alias, for link and unlink, e.g. \"dana\", \"Dana Smith\" or \"dana@example.com\"",
+        },
+        name: {
+          type: "string",
+          description: "Display name, for rename (or for the new person created by link)",
+        },
+        merge_with: {
+          type: "string",
+          description: "For merge: the person (ID or alias) whose aliases move to person; they are then removed",
+        },
+      },
+      required: ["action"],
+    },
+  },
 ];
 
 // Initialize server
@@ -410,29 +606,58 @@ const server = new Server(
   }
 );
 
-// Parse command line arguments
-function parseArgs(): { apiKey: string; subdomain: string } {
-  const args = process.argv.slice(2);
-  let apiKey: string | undefined;
-  let subdomain: string | undefined;
+// Default freshness window for answering API tools from the local cache
+const DEFAULT_CACHE_MAX_AGE_MINUTES = 60;
+const DEFAULT_EXPORT_DIR = path.join(os.homedir(), ".fellow-mcp", "exports");
 
+interface Config {
+  apiKey: string;
+  subdomain: string;
+  cacheMaxAgeMinutes: number;
+  requestTimeoutSeconds?: number;
+  maxRetries?: number;
+}
+
+// Reads `--flag value` or `--flag=value` from the command line
+function getFlagValue(flag: string): string | undefined {
+  const args = process.argv.slice(2);
   for (let i = 0; i < args.length; i++) {
-    if (args[i] === "--api-key" && args[i + 1]) {
-      apiKey = args[i + 1];
-      i++;
-    } else if (args[i] === "--subdomain" && args[i + 1]) {
-      subdomain = args[i + 1];
-      i++;
-    } else if (args[i].startsWith("--api-key=")) {
-      apiKey = args[i].split("=")[1];
-    } else if (args[i].startsWith("--subdomain=")) {
-      subdomain = args[i].split("=")[1];
+    if (args[i] === flag && args[i + 1]) {
+      return args[i + 1];
+    }
+    if (args[i].startsWith(`${flag}=`)) {
+      return args[i].slice(flag.length + 1);
     }
   }
+  return undefined;
+}
+
+// Reads a boolean switch such as `--read-only`, or a "1"/"true" environment variable
+function getBooleanOption(flag: string, envVar: string): boolean {
+  if (process.argv.slice(2).includes(flag)) {
+    return true;
+  }
+  const raw = process.env[envVar]?.toLowerCase();
+  return raw === "1" || raw === "true";
+}
+
+// Reads an optional non-negative number from a flag or environment variable
+function getNumberOption(flag: string, envVar: string): number | undefined {
+  const raw = getFlagValue(flag) ?? process.env[envVar];
+  if (raw === undefined) {
+    return undefined;
+  }
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`Invalid value "${raw}": ${flag} / ${envVar} must be a non-negative number`);
+  }
+  return value;
+}
 
-  // Fall back to environment variables
-  apiKey = apiKey ?? process.env.FELLOW_API_KEY;
-  subdomain = subdomain ?? process.env.FELLOW_SUBDOMAIN;
+// Parse command line arguments, falling back to environment variables
+function parseArgs(): Config {
+  const apiKey = getFlagValue("--api-key") ?? process.env.FELLOW_API_KEY;
+  const subdomain = getFlagValue("--subdomain") ?? process.env.FELLOW_SUBDOMAIN;
 
   if (!apiKey) {
     throw new Error("API key required: use --api-key <key> or set FELLOW_API_KEY env var");
@@ -441,291 +666,317 @@ function parseArgs(): { apiKey: string; subdomain: string } {
     throw new Error("Subdomain required: use --subdomain <subdomain> or set FELLOW_SUBDOMAIN env var");
   }
 
-  return { apiKey, subdomain };
+  return {
+    apiKey,
+    subdomain,
+    cacheMaxAgeMinutes: getNumberOption("--cache-max-age", "FELLOW_CACHE_MAX_AGE") ?? DEFAULT_CACHE_MAX_AGE_MINUTES,
+    requestTimeoutSeconds: getNumberOption("--timeout", "FELLOW_API_TIMEOUT"),
+    maxRetries: getNumberOption("--max-retries", "FELLOW_API_MAX_RETRIES"),
+  };
 }
 
 // Get configuration from args or environment
 let cachedClient: FellowClient | null = null;
 let cachedDb: FellowDatabase | null = null;
+let cachedResolver: MeetingResolver | null = null;
+let cachedScheduler: SyncScheduler | null = null;
+let cachedFileConfig: FileConfig | null = null;
 
 function getClient(): FellowClient {
   if (!cachedClient) {
-    const { apiKey, subdomain } = parseArgs();
-    cachedClient = new FellowClient(apiKey, subdomain);
+    const { apiKey, subdomain, requestTimeoutSeconds, maxRetries } = parseArgs();
+    cachedClient = new FellowClient(apiKey, subdomain, {
+      timeoutMs: requestTimeoutSeconds !== undefined ? requestTimeoutSeconds * 1000 : undefined,
+      maxRetries,
+    });
   }
   return cachedClient;
 }
 
-function getDatabase(): FellowDatabase {
-  if (!cachedDb) {
-    cachedDb = new FellowDatabase();
-  }
-  return cachedDb;
+// --read-only / FELLOW_READ_ONLY: open the cache read-only and disable syncing
+function isReadOnly(): boolean {
+  return getBooleanOption("--read-only", "FELLOW_READ_ONLY");
 }
 
-// Sync helper functions
-interface SyncResult {
-  notes_synced: number;
-  recordings_synced: number;
-  action_items_found: number;
-  participants_synced: number;
+// Reads a secret from an environment variable, or from the file named by a flag / second environment variable
+function getSecretOption(envVar: string, fileFlag: string, fileEnvVar: string): string | undefined {
+  if (process.env[envVar]) {
+    return process.env[envVar];
+  }
+  const filePath = getFlagValue(fileFlag) ?? process.env[fileEnvVar];
+  if (!filePath) {
+    return undefined;
+  }
+  const secret = fs.readFileSync(filePath, "utf8").trim();
+  if (!secret) {
+    throw new Error(`Key file ${filePath} is empty`);
+  }
+  return secret;
 }
 
-async function syncNotesFromApi(
-  client: FellowClient,
-  db: FellowDatabase,
-  options: { since?: string; includeTranscripts?: boolean } = {}
-): Promise<SyncResult> {
-  const result: SyncResult = {
-    notes_synced: 0,
-    recordings_synced: 0,
-    action_items_found: 0,
-    participants_synced: 0,
-  };
-
-  let cursor: string | null = null;
-  const pageSize = 50;
-
-  // Fetch notes with content and attendees
-  do {
-    const notesResp = await client.listNotes({
-      updated_at_start: options.since,
-      include_content: true,
-      include_attendees: true,
-      cursor: cursor ?? undefined,
-      page_size: pageSize,
-    });
-
-    for (const note of notesResp.notes.data) {
-      // Store note
-      db.upsertNote({
-        id: note.id,
-        title: note.title,
-        created_at: note.created_at,
-        updated_at: note.updated_at,
-        event_start: note.event_start ?? null,
-        event_end: note.event_end ?? null,
-        event_guid: note.event_guid ?? null,
-        call_url: note.call_url ?? null,
-        content_markdown: note.content_markdown ?? null,
-      });
-      result.notes_synced++;
-
-      // Extract and store action items
-      if (note.content_markdown) {
-        db.clearActionItemsForNote(note.id);
-        const actionItems = extractActionItems(note.content_markdown);
-        for (const item of actionItems) {
-          db.insertActionItem({
-            note_id: note.id,
-            content: item.content,
-            assignee: item.assignee,
-            due_date: item.due_date,
-            is_completed: item.is_completed,
-            created_at: new Date().toISOString(),
-          });
-          result.action_items_found++;
-        }
-      }
+// --timezone / FELLOW_TIMEZONE: zone relative due dates ("by Friday") are resolved in; the system zone by default
+function getTimeZone(): string | undefined {
+  const timeZone = getFlagValue("--timezone") ?? process.env.FELLOW_TIMEZONE;
+  return timeZone ? validateTimeZone(timeZone) : undefined;
+}
 
-      // Store participants
-      if (note.event_attendees && note.event_attendees.length > 0) {
-        db.clearParticipantsForNote(note.id);
-        for (const email of note.event_attendees) {
-          if (email && typeof email === "string" && email.trim()) {
-            db.insertParticipant(note.id, email.trim());
-            result.participants_synced++;
-          }
-        }
-      }
+// Opens --db-path / FELLOW_DB_PATH, or the default database for the configured subdomain
+function getDatabase(): FellowDatabase {
+  if (!cachedDb) {
+    const subdomain = getFlagValue("--subdomain") ?? process.env.FELLOW_SUBDOMAIN;
+    const dbPath = getFlagValue("--db-path") ?? process.env.FELLOW_DB_PATH;
+    if (!dbPath && !subdomain) {
+      throw new Error("Subdomain required to locate the database: use --subdomain <subdomain> or set FELLOW_SUBDOMAIN, or pass --db-path");
     }
-
-    cursor = notesResp.notes.page_info.cursor;
-  } while (cursor);
-
-  // Fetch recordings (optionally with transcripts)
-  cursor = null;
-  do {
-    const recordingsResp = await client.listRecordings({
-      updated_at_start: options.since,
-      include_transcript: options.includeTranscripts ?? false,
-      cursor: cursor ?? undefined,
-      page_size: pageSize,
+    cachedDb = new FellowDatabase(dbPath ?? defaultDatabasePath(subdomain!), {
+      readOnly: isReadOnly(),
+      workspace: subdomain,
+      encryptionKey: getSecretOption("FELLOW_ENCRYPTION_KEY", "--encryption-key-file", "FELLOW_ENCRYPTION_KEY_FILE"),
     });
-
-    for (const recording of recordingsResp.recordings.data) {
-      // Skip if note doesn't exist in DB (can happen with incremental sync)
-      if (recording.note_id && !db.getNote(recording.note_id)) {
-        continue;
-      }
-      db.upsertRecording({
-        id: recording.id,
-        note_id: recording.note_id,
-        title: recording.title,
-        created_at: recording.created_at,
-        updated_at: recording.updated_at,
-        event_start: recording.event_start ?? null,
-        event_end: recording.event_end ?? null,
-        recording_start: recording.recording_start ?? null,
-        recording_end: recording.recording_end ?? null,
-        event_guid: recording.event_guid ?? null,
-        call_url: recording.call_url ?? null,
-        transcript_json: recording.transcript ? JSON.stringify(recording.transcript) : null,
-      });
-      result.recordings_synced++;
+    // Enforce retention as soon as the cache is opened, not only after syncs
+    const retention = getFileConfig().retention;
+    if (retention && !cachedDb.isReadOnly()) {
+      applyRetention(cachedDb, retention);
     }
-
-    cursor = recordingsResp.recordings.page_info.cursor;
-  } while (cursor);
-
-  // Update last sync time
-  db.setLastSyncTime(new Date().toISOString());
-
-  return result;
+    // A new schema version may derive identities differently, so rebuild them from the whole cache
+    if (cachedDb.wasMigrated()) {
+      seedIdentities(cachedDb);
+    }
+  }
+  return cachedDb;
 }
 
-async function performIncrementalSync(client: FellowClient, db: FellowDatabase): Promise<SyncResult | null> {
-  const lastSync = db.getLastSyncTime();
-  if (!lastSync) {
-    // No previous sync, do a full sync
-    return syncNotesFromApi(client, db);
+function getResolver(): MeetingResolver {
+  if (!cachedResolver) {
+    const { cacheMaxAgeMinutes } = parseArgs();
+    cachedResolver = new MeetingResolver(getClient(), getDatabase(), cacheMaxAgeMinutes * 60 * 1000);
   }
+  return cachedResolver;
+}
 
-  // Sync only notes updated since last sync
-  return syncNotesFromApi(client, db, { since: lastSync });
+// Optional JSON config file: --config <path> / FELLOW_CONFIG, default ~/.fellow-mcp/config.json
+function getFileConfig(): FileConfig {
+  if (!cachedFileConfig) {
+    cachedFileConfig = loadConfigFile(getFlagValue("--config") ?? process.env.FELLOW_CONFIG ?? DEFAULT_CONFIG_PATH);
+  }
+  return cachedFileConfig;
 }
 
-// Helper to extract action items from markdown content
-interface ParsedActionItem {
-  content: string;
-  assignee: string | null;
-  due_date: string | null;
-  is_completed: boolean;
+// The config file's scope wins over one saved with sync_meetings
+function getSyncScope(db: FellowDatabase): SyncScope | null {
+  return getFileConfig().sync_scope ?? db.getSyncScope();
 }
 
-function extractActionItems(content: string): ParsedActionItem[] {
-  const actionItems: ParsedActionItem[] = [];
-  const lines = content.split("\n");
-
-  for (const line of lines) {
-    // Match checkbox items: - [ ] or - [x] or * [ ] or * [x]
-    const checkboxMatch = line.match(/^\s*[-*]\s*\[([ xX])\]\s*(.+)/);
-    if (checkboxMatch) {
-      const isCompleted = checkboxMatch[1].toLowerCase() === "x";
-      const itemContent = checkboxMatch[2].trim();
-      const { assignee, dueDate
-
- } = parseAssigneeAndDueDate(itemContent);
-      
-      actionItems.push({
-        content: itemContent,
-        assignee,
-        due_date: dueDate,
-        is_completed: isCompleted,
+// All syncs go through the scheduler so tool calls and background runs never overlap
+function getScheduler(): SyncScheduler {
+  if (!cachedScheduler) {
+    cachedScheduler = new SyncScheduler(() => {
+      const db = getDatabase();
+      return performIncrementalSync(getClient(), db, {
+        scope: getSyncScope(db),
+        retention: getFileConfig().retention,
+        timeZone: getTimeZone(),
       });
-      continue;
-    }
+    });
+  }
+  return cachedScheduler;
+}
 
-    // Match "Action Item:" or "Action:" or "TODO:" patterns
-    const actionMatch = line.match(/^\s*[-*]?\s*(?:Action\s*Item|Action|TODO|To-Do|To Do)\s*:\s*(.+)/i);
-    if (actionMatch) {
-      const itemContent = actionMatch[1].trim();
-      const { assignee, dueDate } = parseAssigneeAndDueDate(itemContent);
-      
-      actionItems.push({
-        content: itemContent,
-        assignee,
-        due_date: dueDate,
-        is_completed: false,
-      });
-      continue;
-    }
+/**
+ * Runs an incremental sync before answering from the cache, unless the
+ * background scheduler is keeping it fresh or the database is read-only.
+ * A failed sync is reported, not thrown, so cached data can still be shown.
+ */
+async function refreshBeforeRead(db: FellowDatabase): Promise<{ syncResult: SyncResult | null; syncError: string | null }> {
+  const scheduler = getScheduler();
+  if (scheduler.enabled) {
+    return { syncResult: null, syncError: scheduler.getStatus().last_error };
+  }
+  if (db.isReadOnly()) {
+    return { syncResult: null, syncError: null };
+  }
+  try {
+    return { syncResult: await scheduler.syncNow(), syncError: null };
+  } catch (err) {
+    console.error("Incremental sync failed:", err);
+    return { syncResult: null, syncError: err instanceof Error ? err.message : String(err) };
+  }
+}
 
-    // Match items with @mentions at the start (common Fellow pattern)
-    const mentionMatch = line.match(/^\s*[-*]\s*(@\w+[\w\s]*?)\s*[-:]\s*(.+)/);
-    if (mentionMatch) {
-      const assignee = mentionMatch[1].replace("@", "").trim();
-      const itemContent = mentionMatch[2].trim();
-      const { dueDate } = parseAssigneeAndDueDate(itemContent);
-      
-      actionItems.push({
-        content: `@${assignee}: ${itemContent}`,
-        assignee,
-        due_date: dueDate,
-        is_completed: false,
-      });
-    }
+// Resolves a recording with its transcript by ID or by title
+async function resolveTranscriptRecording(
+  recordingId: string | undefined,
+  meetingTitle: string | undefined,
+  options: { fresh?: boolean } = {}
+): Promise<Resolved<Recording> | null> {
+  if (recordingId) {
+    return getResolver().getRecording(recordingId, { includeTranscript: true, fresh: options.fresh });
+  }
+  if (meetingTitle) {
+    const recordingsResp = await getClient().listRecordings({
+      title: meetingTitle,
+      include_transcript: true,
+      page_size: 1,
+    });
+    const recording = recordingsResp.recordings.data[0];
+    return recording ? { value: recording, source: "api", synced_at: null } : null;
   }
+  return null;
+}
 
-  return actionItems;
+// --export-dir / FELLOW_EXPORT_DIR: the only place export_transcript may write to
+function getExportDir(): string {
+  const dir = getFlagValue("--export-dir") ?? process.env.FELLOW_EXPORT_DIR;
+  return dir ? path.resolve(expandHome(dir)) : DEFAULT_EXPORT_DIR;
 }
 
-function parseAssigneeAndDueDate(text: string): { assignee: string | null; dueDate: string | null } {
-  let assignee: string | null = null;
-  let dueDate: string | null = null;
+function expandHome(filePath: string): string {
+  return filePath.startsWith("~") ? path.join(os.homedir(), filePath.slice(1)) : filePath;
+}
 
-  // Extract @mentions for assignee
-  const mentionMatch = text.match(/@(\w+)/);
-  if (mentionMatch) {
-    assignee = mentionMatch[1];
-  }
+function isInside(dir: string, target: string): boolean {
+  const relative = path.relative(dir, target);
+  return relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative));
+}
 
-  // Extract due dates in various formats
-  // ISO format: 2024-01-15
-  const isoDateMatch = text.match(/(?:due|by|deadline)\s*:?\s*(\d{4}-\d{2}-\d{2})/i);
-  if (isoDateMatch) {
-    dueDate = isoDateMatch[1];
+/**
+ * Writes an export to disk, expanding ~ and naming the file when given a
+ * directory. Existing files are only replaced with `overwrite`. With
+ * `baseDir`, relative paths are resolved against it and the file must end up
+ * inside it, symlinks included.
+ */
+function writeTranscriptExport(
+  outputPath: string,
+  recording: Recording,
+  format: TranscriptExportFormat,
+  content: string,
+  options: { overwrite?: boolean; baseDir?: string } = {}
+): string {
+  let target = path.resolve(options.baseDir ?? "", expandHome(outputPath));
+  if (options.baseDir && !isInside(options.baseDir, target)) {
+    throw new Error(`Exports can only be written inside ${options.baseDir} (set FELLOW_EXPORT_DIR to change it)`);
   }
-
-  // US format: 01/15/2024 or 1/15/24
-  const usDateMatch = text.match(/(?:due|by|deadline)\s*:?\s*(\d{1,2}\/\d{1,2}\/\d{2,4})/i);
-  if (!dueDate && usDateMatch) {
-    const parts = usDateMatch[1].split("/");
-    const month = parts[0].padStart(2, "0");
-    const day = parts[1].padStart(2, "0");
-    let year = parts[2];
-    if (year.length === 2) {
-      year = "20" + year;
+  if (options.baseDir) {
+    fs.mkdirSync(options.baseDir, { recursive: true });
+  }
+  if (fs.existsSync(target) && fs.statSync(target).isDirectory()) {
+    target = path.join(target, `${recording.id}.${TRANSCRIPT_EXPORT_EXTENSIONS[format]}`);
+  }
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  if (options.baseDir && !isInside(fs.realpathSync(options.baseDir), fs.realpathSync(path.dirname(target)))) {
+    throw new Error(`Exports can only be written inside ${options.baseDir} (set FELLOW_EXPORT_DIR to change it)`);
+  }
+  try {
+    fs.writeFileSync(target, content, { encoding: "utf8", flag: options.overwrite ? "w" : "wx" });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+      throw new Error(`${target} already exists; set overwrite to replace it`);
     }
-    dueDate = `${year}-${month}-${day}`;
+    throw error;
   }
+  return target;
+}
 
-  return { assignee, dueDate };
+// Date-only upper bounds (YYYY-MM-DD) should include the whole day
+function inclusiveUntil(until: string | undefined): string | undefined {
+  return until && /^\d{4}-\d{2}-\d{2}$/.test(until) ? `${until}T23:59:59.999Z` : until;
 }
 
-// Format transcript for output
-function formatTranscript(transcript: Transcript): string {
-  if (!transcript.speech_segments || transcript.speech_segments.length === 0) {
-    return "No transcript available.";
+// Finds a person by ID or by any of their aliases; fails when nobody or more than one person matches
+function resolvePerson(db: FellowDatabase, query: string): Person {
+  const byId = /^\d+$/.test(query.trim()) ? db.getPerson(Number(query)) : null;
+  if (byId) return byId;
+  const matches = db.findPeople(query);
+  if (matches.length === 0) {
+    throw new Error(`No person found for "${query}". Use get_people to list known people, or update_identity to link this alias.`);
+  }
+  if (matches.length > 1) {
+    const names = matches.map((person) => `${person.display_name ?? "unnamed"} (ID ${person.id})`).join(", ");
+    throw new Error(`"${query}" matches several people: ${names}. Use a person ID or an email instead.`);
   }
+  return matches[0];
+}
 
-  let output = `Language: ${transcript.language_code}\n\n`;
-  
-  for (const segment of transcript.speech_segments) {
-    const startTime = formatTime(segment.start_time);
-    const endTime = formatTime(segment.end_time);
-    output += `[${startTime} - ${endTime}] ${segment.speaker}: ${segment.text}\n`;
+function formatPerson(person: Person): string {
+  let output = `## ${person.display_name ?? "Unnamed"} (ID ${person.id})\n`;
+  for (const kind of ALIAS_KINDS) {
+    const aliases = person.aliases.filter((alias) => alias.kind === kind);
+    if (aliases.length === 0) continue;
+    output += `- ${kind}: ${aliases.map((alias) => `${alias.alias}${alias.source === "manual" ? " (manual)" : ""}`).join(", ")}\n`;
   }
+  return output;
+}
+
+// The assignee spellings a person filter matches, for the report header
+function describeHandles(person: Person): string {
+  const handles = person.aliases.filter((alias) => alias.kind === "handle").map((alias) => `@${alias.alias}`);
+  return handles.length > 0 ? `matching ${handles.join(", ")}` : "no linked @handles yet";
+}
 
+function formatSpeakingStats(stats: SpeakingStats): string {
+  let output = "| Speaker | Talk time | Share | Turns | Longest turn | Interruptions | Interrupted |";
+  output += stats.meetings > 1 ? " Meetings |\n" : "\n";
+  output += "|---|---|---|---|---|---|---|";
+  output += stats.meetings > 1 ? "---|\n" : "\n";
+  for (const s of stats.speakers) {
+    output += `| ${s.speaker} | ${formatTime(s.talk_time)} | ${(s.share * 100).toFixed(1)}% | ${s.turns} | ${formatTime(s.longest_turn)} | ${s.interruptions} | ${s.interrupted} |`;
+    output += stats.meetings > 1 ? ` ${s.meetings} |\n` : "\n";
+  }
   return output;
 }
 
-function formatTime(seconds: number): string {
-  const mins = Math.floor(seconds / 60);
-  const secs = Math.floor(seconds % 60);
-  return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+/**
+ * Forwards sync progress as MCP progress notifications. Returns undefined when
+ * the caller didn't ask for progress (no progress token on the request).
+ */
+function syncProgressNotifier(
+  progressToken: ProgressToken | undefined,
+  sendNotification: (notification: ServerNotification) => Promise<void>
+): ((progress: SyncProgress) => void) | undefined {
+  if (progressToken === undefined) {
+    return undefined;
+  }
+  return (progress) => {
+    const counts =
+      progress.phase === "reconcile"
+        ? "checking for deleted meetings"
+        : `${progress.notes_processed} notes, ${progress.recordings_processed} recordings processed`;
+    sendNotification({
+      method: "notifications/progress",
+      params: {
+        progressToken,
+        progress: progress.pages,
+        message: `Syncing ${progress.phase} (page ${progress.pages}): ${counts}`,
+      },
+    }).catch((err) => console.error("Failed to send progress notification:", err));
+  };
 }
 
 // Handle tool calls
+// Tools that write to the database, hidden in read-only mode
+const WRITE_TOOLS = new Set(["sync_meetings", "purge_cache", "update_identity"]);
+
 server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return { tools };
+  return { tools: isReadOnly() ? tools.filter((tool) => !WRITE_TOOLS.has(tool.name)) : tools };
 });
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
   const { name, arguments: args } = request.params;
   const client = getClient();
 
   try {
+    if (WRITE_TOOLS.has(name) && isReadOnly()) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `${name} is disabled: the server is running in read-only mode.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
     switch (name) {
       case "search_meetings": {
         const { title, created_at_start, created_at_end, limit } = args as {
@@ -771,100 +1022,180 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case "get_meeting_transcript": {
-        const { recording_id, meeting_title } = args as {
+        const params = args as {
           recording_id?: string;
           meeting_title?: string;
+          start_time?: string | number;
+          end_time?: string | number;
+          speaker?: string;
+          merge_speakers?: boolean;
+          offset?: number;
+          limit?: number;
+          cursor?: string;
+          fresh?: boolean;
         };
 
-        let recordingWithTranscript: Recording | null = null;
+        const continuation = params.cursor ? decodeTranscriptCursor(params.cursor) : null;
+        const recording_id = continuation?.recording_id ?? params.recording_id;
+        const meeting_title = continuation ? undefined : params.meeting_title;
+        const window: TranscriptWindow = continuation ?? {
+          start_time: params.start_time !== undefined ? parseTimestamp(params.start_time) : undefined,
+          end_time: params.end_time !== undefined ? parseTimestamp(params.end_time) : undefined,
+          speaker: params.speaker,
+          merge_speakers: params.merge_speakers,
+          offset: params.offset,
+          limit: params.limit,
+        };
 
-        if (recording_id) {
-          // Get the specific recording with transcript
-          const recordingsResp = await client.listRecordings({
-            include_transcript: true,
-            page_size: 50,
-          });
-          recordingWithTranscript =
-            recordingsResp.recordings.data.find((r) => r.id === recording_id) ?? null;
-          
-          if (!recordingWithTranscript) {
-            // Try fetching all to find it
-            const allRecordingsResp = await client.listRecordings({
-              include_transcript: true,
-              page_size: 50,
-            });
-            recordingWithTranscript =
-              allRecordingsResp.recordings.data.find((r) => r.id === recording_id) ?? null;
-          }
-        } else if (meeting_title) {
-          // Search by title and get transcript
-          const recordingsResp = await client.listRecordings({
-            title: meeting_title,
-            include_transcript: true,
-            page_size: 1,
+        const resolved = await resolveTranscriptRecording(recording_id, meeting_title, { fresh: params.fresh });
+
+        if (!resolved) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "Recording not found. Please provide a valid recording_id or meeting_title.",
+              },
+            ],
+          };
+        }
+
+        const recordingWithTranscript = resolved.value;
+        let header = `# Transcript: ${recordingWithTranscript.title}\n\nRecording ID: ${recordingWithTranscript.id}\nEvent Start: ${recordingWithTranscript.event_start ?? "N/A"}\nSource: ${describeSource(resolved)}\n`;
+
+        if (!recordingWithTranscript.transcript) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `${header}\nNo transcript available for this recording.`,
+              },
+            ],
+          };
+        }
+
+        const allSegments = recordingWithTranscript.transcript.speech_segments ?? [];
+        const page = pageTranscript(allSegments, window);
+        if (page.segments.length > 0) {
+          header += `Segments: ${page.offset + 1}-${page.offset + page.segments.length} of ${page.total}\n`;
+        } else if (allSegments.length > 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `${header}\nNo transcript segments match the requested window (${allSegments.length} segments in total).`,
+              },
+            ],
+          };
+        }
+        let footer = "";
+        if (page.next_offset !== null) {
+          const nextCursor = encodeTranscriptCursor({
+            ...window,
+            recording_id: recordingWithTranscript.id,
+            offset: page.next_offset,
           });
-          recordingWithTranscript = recordingsResp.recordings.data[0] ?? null;
+          footer = `\n---\nMore segments available. Call get_meeting_transcript with cursor: ${nextCursor}\n`;
         }
 
-        if (!recordingWithTranscript) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${header}\n${formatTranscript(recordingWithTranscript.transcript, page.segments)}${footer}`,
+            },
+          ],
+        };
+      }
+
+      case "export_transcript": {
+        const { recording_id, meeting_title, format, output_path, overwrite } = args as {
+          recording_id?: string;
+          meeting_title?: string;
+          format: TranscriptExportFormat;
+          output_path?: string;
+          overwrite?: boolean;
+        };
+
+        if (!TRANSCRIPT_EXPORT_FORMATS.includes(format)) {
           return {
             content: [
               {
                 type: "text",
-                text: "Recording not found. Please provide a valid recording_id or meeting_title.",
+                text: `Unsupported format: ${format}. Use one of: ${TRANSCRIPT_EXPORT_FORMATS.join(", ")}.`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const resolved = await resolveTranscriptRecording(recording_id, meeting_title);
+        if (!resolved?.value.transcript) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: resolved
+                  ? "No transcript available for this recording."
+                  : "Recording not found. Please provide a valid recording_id or meeting_title.",
               },
             ],
           };
         }
 
-        const transcriptText = recordingWithTranscript.transcript
-          ? formatTranscript(recordingWithTranscript.transcript)
-          : "No transcript available for this recording.";
+        const exported = exportTranscript(resolved.value, format);
+
+        if (output_path) {
+          const written = writeTranscriptExport(output_path, resolved.value, format, exported, {
+            overwrite,
+            baseDir: getExportDir(),
+          });
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Exported ${resolved.value.transcript.speech_segments.length} segments of "${resolved.value.title}" as ${format} to ${written}`,
+              },
+            ],
+          };
+        }
 
         return {
           content: [
             {
               type: "text",
-              text: `# Transcript: ${recordingWithTranscript.title}\n\nRecording ID: ${recordingWithTranscript.id}\nEvent Start: ${recordingWithTranscript.event_start ?? "N/A"}\n\n${transcriptText}`,
+              text: exported,
             },
           ],
         };
       }
 
       case "get_meeting_summary": {
-        const { note_id, recording_id, meeting_title } = args as {
+        const { note_id, recording_id, meeting_title, include_transcript, fresh } = args as {
           note_id?: string;
           recording_id?: string;
           meeting_title?: string;
+          include_transcript?: boolean;
+          fresh?: boolean;
         };
 
-        let noteId = note_id;
+        const resolver = getResolver();
+        let note: Resolved<Note> | null = null;
         let targetRecordingId = recording_id;
 
-        // If recording_id provided, get the associated note_id
-        if (!noteId && recording_id) {
-          const recordingsResp = await client.listRecordings({ page_size: 50 });
-          const recording = recordingsResp.recordings.data.find((r) => r.id === recording_id);
-          if (recording) {
-            noteId = recording.note_id;
-          }
-        }
-
-        // If meeting_title provided, search for the note and recording
-        if (!noteId && meeting_title) {
-          // Search recordings by title to get both note_id and recording_id
-          const recordingsResp = await client.listRecordings({
-            title: meeting_title,
-            page_size: 1,
-          });
-          if (recordingsResp.recordings.data.length > 0) {
-            const recording = recordingsResp.recordings.data[0];
-            noteId = recording.note_id;
-            targetRecordingId = recording.id;
+        if (note_id) {
+          note = await resolver.getNote(note_id, { fresh });
+        } else if (recording_id) {
+          // If recording_id provided, get the associated note
+          const recording = await resolver.getRecording(recording_id, { fresh });
+          if (recording?.value.note_id) {
+            note = await resolver.getNote(recording.value.note_id, { fresh });
           }
+        } else if (meeting_title) {
+          note = await resolver.findNoteByTitle(meeting_title, { include_content: true, fresh });
         }
 
-        if (!noteId && !targetRecordingId) {
+        if (!note && !targetRecordingId) {
           return {
             content: [
               {
@@ -875,54 +1206,41 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
 
-        // Fetch note content
-        let noteContent: string | null = null;
-        let noteTitle: string = meeting_title ?? "Unknown Meeting";
-        let eventStart: string | null = null;
-
-        if (noteId) {
-          const notesResp = await client.listNotes({
-            include_content: true,
-            page_size: 50,
-          });
-          const note = notesResp.notes.data.find((n) => n.id === noteId);
-          if (note) {
-            noteTitle = note.title;
-            eventStart = note.event_start ?? null;
-            noteContent = note.content_markdown ?? null;
-          }
-        }
-
-        // Find recording ID if we don't have it
-        if (!targetRecordingId && noteId) {
-          const recordingsResp = await client.listRecordings({ page_size: 50 });
-          const recording = recordingsResp.recordings.data.find((r) => r.note_id === noteId);
-          if (recording) {
-            targetRecordingId = recording.id;
-          }
+        let noteTitle: string = note?.value.title ?? meeting_title ?? "Unknown Meeting";
+        const noteContent = note?.value.content_markdown ?? null;
+        const eventStart = note?.value.event_start ?? null;
+        const sources: string[] = [];
+        if (note) {
+          sources.push(`notes from ${describeSource(note)}`);
+          // Find recording ID if we don't have it
+          targetRecordingId = targetRecordingId ?? resolver.recordingIdForNote(note.value);
         }
 
-        // Fetch transcript
+        // Fetch transcript, or just the recording when we only need its title
         let transcriptText: string | null = null;
-        if (targetRecordingId) {
-          const recordingsResp = await client.listRecordings({
-            include_transcript: true,
-            page_size: 50,
+        if (targetRecordingId && (include_transcript || !note)) {
+          const recording = await resolver.getRecording(targetRecordingId, {
+            includeTranscript: include_transcript,
+            fresh,
           });
-          const recording = recordingsResp.recordings.data.find((r) => r.id === targetRecordingId);
-          if (recording?.transcript) {
-            transcriptText = formatTranscript(recording.transcript);
-            if (!noteTitle || noteTitle === "Unknown Meeting") {
-              noteTitle = recording.title;
-            }
+          if (recording && !note) {
+            noteTitle = recording.value.title;
+          }
+          if (include_transcript && recording?.value.transcript) {
+            transcriptText = formatTranscript(recording.value.transcript);
+            sources.push(`transcript from ${describeSource(recording)}`);
           }
         }
 
         // Build response with both note and transcript
         let response = `# Meeting Summary: ${noteTitle}\n\n`;
-        response += `Note ID: ${noteId ?? "N/A"}\n`;
+        response += `Note ID: ${note?.value.id ?? "N/A"}\n`;
         response += `Recording ID: ${targetRecordingId ?? "N/A"}\n`;
-        response += `Event Start: ${eventStart ?? "N/A"}\n\n`;
+        response += `Event Start: ${eventStart ?? "N/A"}\n`;
+        if (sources.length > 0) {
+          response += `Source: ${sources.join(", ")}\n`;
+        }
+        response += "\n";
 
         if (noteContent) {
           response += `## Notes\n\n${noteContent}\n\n`;
@@ -931,7 +1249,13 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         if (transcriptText) {
           response += `## Transcript\n\n${transcriptText}`;
         } else if (!noteContent) {
-          response += "No notes or transcript available for this meeting.";
+          response += include_transcript
+            ? "No notes or transcript available for this meeting."
+            : "No notes available for this meeting.";
+        }
+
+        if (!include_transcript && targetRecordingId) {
+          response += `\n\nA recording is available; use get_meeting_transcript with recording_id ${targetRecordingId} to read the transcript.`;
         }
 
         return {
@@ -945,29 +1269,22 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case "get_action_items": {
-        const { note_id, meeting_title } = args as {
+        const { note_id, meeting_title, fresh } = args as {
           note_id?: string;
           meeting_title?: string;
+          fresh?: boolean;
         };
 
-        let note: Note | null = null;
+        const resolver = getResolver();
+        let resolved: Resolved<Note> | null = null;
 
         if (note_id) {
-          const notesResp = await client.listNotes({
-            include_content: true,
-            page_size: 50,
-          });
-          note = notesResp.notes.data.find((n) => n.id === note_id) ?? null;
+          resolved = await resolver.getNote(note_id, { fresh });
         } else if (meeting_title) {
-          const notesResp = await client.listNotes({
-            title: meeting_title,
-            include_content: true,
-            page_size: 1,
-          });
-          note = notesResp.notes.data[0] ?? null;
+          resolved = await resolver.findNoteByTitle(meeting_title, { include_content: true, fresh });
         }
 
-        if (!note) {
+        if (!resolved) {
           return {
             content: [
               {
@@ -978,14 +1295,16 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
 
+        const note = resolved.value;
         const actionItems = note.content_markdown
-          ? extractActionItems(note.content_markdown)
+          ? extractActionItems(note.content_markdown, { date: note.event_start ?? note.created_at, timeZone: getTimeZone() })
           : [];
 
         const formattedItems = actionItems.map((item, i) => {
           let line = `${i + 1}. ${item.is_completed ? "[x]" : "[ ]"} ${item.content}`;
           if (item.assignee) line += ` (assignee: @${item.assignee})`;
-          if (item.due_date) line += ` (due: ${item.due_date})`;
+          if (item.due_date) line += ` (due: ${item.due_date}${item.due_phrase ? `, "${item.due_phrase}"` : ""})`;
+          if (item.section) line += ` — under "${item.section}"`;
           return line;
         });
 
@@ -993,7 +1312,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           content: [
             {
               type: "text",
-              text: `# Action Items: ${note.title}\n\nNote ID: ${note.id}\nEvent Start: ${note.event_start ?? "N/A"}\n\n${
+              text: `# Action Items: ${note.title}\n\nNote ID: ${note.id}\nEvent Start: ${note.event_start ?? "N/A"}\nSource: ${describeSource(resolved)}\n\n${
                 formattedItems.length > 0
                   ? formattedItems.join("\n")
                   : "No action items found in this meeting."
@@ -1004,29 +1323,22 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case "get_meeting_participants": {
-        const { note_id, meeting_title } = args as {
+        const { note_id, meeting_title, fresh } = args as {
           note_id?: string;
           meeting_title?: string;
+          fresh?: boolean;
         };
 
-        let note: Note | null = null;
+        const resolver = getResolver();
+        let resolved: Resolved<Note> | null = null;
 
         if (note_id) {
-          const notesResp = await client.listNotes({
-            include_attendees: true,
-            page_size: 50,
-          });
-          note = notesResp.notes.data.find((n) => n.id === note_id) ?? null;
+          resolved = await resolver.getNote(note_id, { fresh });
         } else if (meeting_title) {
-          const notesResp = await client.listNotes({
-            title: meeting_title,
-            include_attendees: true,
-            page_size: 1,
-          });
-          note = notesResp.notes.data[0] ?? null;
+          resolved = await resolver.findNoteByTitle(meeting_title, { include_attendees: true, fresh });
         }
 
-        if (!note) {
+        if (!resolved) {
           return {
             content: [
               {
@@ -1037,13 +1349,14 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
 
+        const note = resolved.value;
         const attendees = note.event_attendees ?? [];
 
         return {
           content: [
             {
               type: "text",
-              text: `# Participants: ${note.title}\n\nNote ID: ${note.id}\nEvent Start: ${note.event_start ?? "N/A"}\n\n${
+              text: `# Participants: ${note.title}\n\nNote ID: ${note.id}\nEvent Start: ${note.event_start ?? "N/A"}\nSource: ${describeSource(resolved)}\n\n${
                 attendees.length > 0
                   ? `Total participants: ${attendees.length}\n\n${attendees.map((email) => `- ${email}`).join("\n")}`
                   : "No participant information available for this meeting."
@@ -1054,23 +1367,90 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case "sync_meetings": {
-        const { force, include_transcripts } = args as {
+        const { force, reconcile, include_transcripts, scope, clear_scope } = args as {
           force?: boolean;
+          reconcile?: boolean;
           include_transcripts?: boolean;
+          scope?: unknown;
+          clear_scope?: boolean;
         };
 
         const db = getDatabase();
         let result: SyncResult;
 
+        if (scope !== undefined || clear_scope) {
+          if (getFileConfig().sync_scope) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: "The sync scope is set in the config file and can't be changed with sync_meetings. Edit sync_scope in the config file instead.",
+                },
+              ],
+              isError: true,
+            };
+          }
+          if (clear_scope) {
+            db.clearSyncScope();
+          } else {
+            db.setSyncScope(normalizeScope(scope));
+          }
+        }
+        const syncScope = getSyncScope(db);
+        const onProgress = syncProgressNotifier(request.params._meta?.progressToken, extra.sendNotification);
+
         if (force) {
-          // Full sync - clear existing data first
-          // Note: We don't have a clearAll method, but the upserts will update existing records
-          // and we clear action items/participants per-note during sync
-          result = await syncNotesFromApi(client, db, { includeTranscripts: include_transcripts });
+          // Full sync - upserts refresh every row and action items/participants are rewritten
+          // per note; the reconciliation pass then tombstones rows that no longer exist in Fellow
+          result = await getScheduler().runExclusive(() =>
+            syncNotesFromApi(client, db, {
+              includeTranscripts: include_transcripts,
+              reconcile: true,
+              scope: syncScope,
+              retention: getFileConfig().retention,
+              timeZone: getTimeZone(),
+              onProgress,
+              signal: extra.signal,
+            })
+          );
         } else {
           // Incremental sync
-          const syncResult = await performIncrementalSync(client, db);
-          result = syncResult ?? { notes_synced: 0, recordings_synced: 0, action_items_found: 0, participants_synced: 0 };
+          const syncResult = await getScheduler().runExclusive(() =>
+            performIncrementalSync(client, db, {
+              includeTranscripts: include_transcripts,
+              reconcile,
+              scope: syncScope,
+              retention: getFileConfig().retention,
+              timeZone: getTimeZone(),
+              onProgress,
+              signal: extra.signal,
+            })
+          );
+          result = syncResult ?? emptySyncResult();
+        }
+
+        const reconciliation = result.reconciled
+          ? `- Notes deleted in Fellow: ${result.notes_deleted}\n- Recordings deleted in Fellow: ${result.recordings_deleted}\n- Recordings moved to another note: ${result.recordings_moved}\n`
+          : "";
+
+        let scopeText = `Scope: ${describeScope(syncScope)}\n`;
+        if (result.notes_out_of_scope > 0 || result.recordings_out_of_scope > 0) {
+          scopeText += `- Skipped as out of scope: ${result.notes_out_of_scope} notes, ${result.recordings_out_of_scope} recordings\n`;
+        }
+        if (result.notes_pruned > 0 || result.recordings_pruned > 0) {
+          scopeText += `- Removed from cache as out of scope: ${result.notes_pruned} notes, ${result.recordings_pruned} recordings\n`;
+        }
+        if (result.scope_changed) {
+          scopeText += "- Scope changed since the last sync: fetched every meeting in the new scope\n";
+        }
+        if (result.notes_skipped_purged > 0 || result.recordings_skipped_purged > 0) {
+          scopeText += `- Skipped as previously purged: ${result.notes_skipped_purged} notes, ${result.recordings_skipped_purged} recordings\n`;
+        }
+        if (result.notes_skipped_expired > 0 || result.recordings_skipped_expired > 0) {
+          scopeText += `- Skipped as older than the retention policy: ${result.notes_skipped_expired} notes, ${result.recordings_skipped_expired} recordings\n`;
+        }
+        if (result.notes_expired > 0 || result.recordings_expired > 0 || result.transcripts_expired > 0) {
+          scopeText += `- Removed by retention policy: ${result.notes_expired} notes, ${result.recordings_expired} recordings, ${result.transcripts_expired} transcripts\n`;
         }
 
         const stats = db.getStats();
@@ -1079,35 +1459,41 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           content: [
             {
               type: "text",
-              text: `# Sync Complete\n\nMode: ${force ? "Full" : "Incremental"}\n\n## This Sync:\n- Notes synced: ${result.notes_synced}\n- Recordings synced: ${result.recordings_synced}\n- Action items found: ${result.action_items_found}\n- Participants synced: ${result.participants_synced}\n\n## Database Totals:\n- Total notes: ${stats.notes}\n- Total recordings: ${stats.recordings}\n- Total action items: ${stats.action_items}\n- Unique participants: ${stats.participants}\n\nLast sync: ${db.getLastSyncTime()}`,
+              text: `# Sync Complete\n\nMode: ${result.mode === "full" ? "Full" : "Incremental"}${result.resumed ? " (resumed from checkpoint)" : ""}\n${scopeText}\n## This Sync:\n- Notes synced: ${result.notes_synced}\n- Recordings synced: ${result.recordings_synced}\n- Recordings whose note was fetched separately: ${result.recordings_recovered}\n- Recordings skipped (note no longer exists): ${result.recordings_orphaned}\n- Action items found: ${result.action_items_found}\n- Participants synced: ${result.participants_synced}\n${reconciliation}\n## Database Totals:\n- Total notes: ${stats.notes}\n- Total recordings: ${stats.recordings}\n- Total action items: ${stats.action_items}\n- Unique participants: ${stats.participants}\n- Transcript segments: ${stats.transcript_segments}\n- Deleted (hidden): ${stats.deleted_notes} notes, ${stats.deleted_recordings} recordings\n\nLast sync: ${db.getLastSyncTime()}`,
             },
           ],
         };
       }
 
       case "get_all_action_items": {
-        const { assignee, show_completed, since } = args as {
+        const { assignee, person, show_completed, since, include_deleted, overdue, due_within_days, no_due_date, sort_by } = args as {
           assignee?: string;
+          person?: string;
           show_completed?: boolean;
           since?: string;
+          include_deleted?: boolean;
+          overdue?: boolean;
+          due_within_days?: number;
+          no_due_date?: boolean;
+          sort_by?: "meeting_date" | "due_date";
         };
 
         const db = getDatabase();
+        const { syncResult, syncError } = await refreshBeforeRead(db);
 
-        // Perform incremental sync first to ensure fresh data
-        let syncError: string | null = null;
-        let syncResult: SyncResult | null = null;
-        try {
-          syncResult = await performIncrementalSync(client, db);
-        } catch (err) {
-          syncError = err instanceof Error ? err.message : String(err);
-          console.error("Incremental sync failed:", err);
-        }
-
+        const resolved = person ? resolvePerson(db, person) : null;
+        const today = todayIn(getTimeZone());
         const actionItems = db.getAllActionItems({
           assignee,
+          person_id: resolved?.id,
           is_completed: show_completed ? undefined : false,
           since,
+          include_deleted,
+          today,
+          overdue,
+          due_within_days,
+          no_due_date,
+          sort_by,
         });
 
         if (actionItems.length === 0) {
@@ -1123,39 +1509,179 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             content: [
               {
                 type: "text",
-                text: msg,
+                text: msg,
+              },
+            ],
+          };
+        }
+
+        // Group by meeting
+        const byMeeting = new Map<string, typeof actionItems>();
+        for (const item of actionItems) {
+          const key = item.note_id;
+          if (!byMeeting.has(key)) {
+            byMeeting.set(key, []);
+          }
+          byMeeting.get(key)!.push(item);
+        }
+
+        let output = `# All Action Items\n\nTotal: ${actionItems.length} items from ${byMeeting.size} meetings\n`;
+        if (assignee) output += `Filtered by assignee: ${assignee}\n`;
+        if (resolved) output += `Filtered by person: ${resolved.display_name ?? person} (${describeHandles(resolved)})\n`;
+        if (since) output += `Since: ${since}\n`;
+        const dueFilters = [
+          overdue ? "overdue" : null,
+          due_within_days !== undefined ? `due within ${due_within_days} days` : null,
+          no_due_date ? "no due date" : null,
+        ].filter(Boolean);
+        if (dueFilters.length > 0) output += `Due: ${dueFilters.join(" or ")} (today is ${today})\n`;
+        output += `Showing: ${show_completed ? "all" : "incomplete only"}\n\n`;
+
+        if (sort_by === "due_date") {
+          for (const item of actionItems) {
+            output += `- ${item.due_date ?? "no due date"}${item.due_date && item.due_date < today && !item.is_completed ? " (overdue)" : ""}: ${item.is_completed ? "[x]" : "[ ]"} ${item.content}`;
+            if (item.assignee) output += ` (@${item.assignee})`;
+            if (item.due_phrase) output += ` ["${item.due_phrase}"]`;
+            output += ` — ${item.note_title}${item.note_deleted_at ? " (deleted in Fellow)" : ""}\n`;
+          }
+          return {
+            content: [
+              {
+                type: "text",
+                text: output,
+              },
+            ],
+          };
+        }
+
+        for (const [noteId, items] of byMeeting) {
+          const firstItem = items[0];
+          output += `## ${firstItem.note_title}${firstItem.note_deleted_at ? " (deleted in Fellow)" : ""}\n`;
+          output += `Date: ${firstItem.event_start ?? "N/A"}\n\n`;
+          
+          for (const item of items) {
+            output += `- ${item.is_completed ? "[x]" : "[ ]"} ${item.content}`;
+            if (item.assignee) output += ` (@${item.assignee})`;
+            if (item.due_date) output += ` [due: ${item.due_date}${item.due_phrase ? `, "${item.due_phrase}"` : ""}]`;
+            output += "\n";
+          }
+          output += "\n";
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: output,
+            },
+          ],
+        };
+      }
+
+      case "get_my_week": {
+        const { assignee, person, days } = args as { assignee?: string; person?: string; days?: number };
+        const horizon = days ?? 7;
+
+        const db = getDatabase();
+        const { syncError } = await refreshBeforeRead(db);
+
+        const resolved = person ? resolvePerson(db, person) : null;
+        const today = todayIn(getTimeZone());
+        const items = db.getAllActionItems({ assignee, person_id: resolved?.id, is_completed: false, today, sort_by: "due_date" });
+        const who = resolved ? (resolved.display_name ?? person) : assignee;
+        const weekEnd = shiftDate(today, horizon);
+
+        const buckets: { title: string; items: typeof items }[] = [
+          { title: "Overdue", items: items.filter((item) => item.due_date !== null && item.due_date < today) },
+          { title: "Due today", items: items.filter((item) => item.due_date === today) },
+          {
+            title: `Due in the next ${horizon} days`,
+            items: items.filter((item) => item.due_date !== null && item.due_date > today && item.due_date <= weekEnd),
+          },
+        ];
+        const later = items.filter((item) => item.due_date !== null && item.due_date > weekEnd);
+        const undated = items.filter((item) => item.due_date === null);
+
+        let output = `# My Week${who ? `: ${who}` : ""}\n\nToday: ${today}\n`;
+        if (syncError) output += `⚠️ Sync error, showing cached data: ${syncError}\n`;
+        for (const bucket of buckets) {
+          output += `\n## ${bucket.title} (${bucket.items.length})\n`;
+          for (const item of bucket.items) {
+            output += `- ${bucket.title === "Due today" ? "" : `${item.due_date} `}${item.content}`;
+            if (!who && item.assignee) output += ` (@${item.assignee})`;
+            output += ` — ${item.note_title}\n`;
+          }
+        }
+        output += `\nLater: ${later.length} items${later.length > 0 ? ` (next due ${later[0].due_date})` : ""}\n`;
+        output += `No due date: ${undated.length} items\n`;
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: output,
+            },
+          ],
+        };
+      }
+
+      case "get_action_item_history": {
+        const { since, until, events, assignee, include_deleted } = args as {
+          since?: string;
+          until?: string;
+          events?: ActionItemEvent[];
+          assignee?: string;
+          include_deleted?: boolean;
+        };
+
+        const db = getDatabase();
+        const history = db.getActionItemHistory({
+          since,
+          until: inclusiveUntil(until),
+          events,
+          assignee,
+          includeDeleted: include_deleted,
+        });
+
+        if (history.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "No action item changes found matching the criteria.",
               },
             ],
           };
         }
 
-        // Group by meeting
-        const byMeeting = new Map<string, typeof actionItems>();
-        for (const item of actionItems) {
-          const key = item.note_id;
-          if (!byMeeting.has(key)) {
-            byMeeting.set(key, []);
-          }
-          byMeeting.get(key)!.push(item);
+        const DAY_MS = 24 * 60 * 60 * 1000;
+        const formatDays = (ms: number) => `${(ms / DAY_MS).toFixed(1)} days`;
+        const counts = new Map<string, number>();
+        for (const entry of history) {
+          counts.set(entry.event, (counts.get(entry.event) ?? 0) + 1);
         }
 
-        let output = `# All Action Items\n\nTotal: ${actionItems.length} items from ${byMeeting.size} meetings\n`;
+        let output = `# Action Item History\n\n`;
+        if (since || until) output += `Period: ${since ?? "beginning"} to ${until ?? "now"}\n`;
         if (assignee) output += `Filtered by assignee: ${assignee}\n`;
-        if (since) output += `Since: ${since}\n`;
-        output += `Showing: ${show_completed ? "all" : "incomplete only"}\n\n`;
+        output += `Changes: ${[...counts].map(([event, count]) => `${count} ${event.replace("_", " ")}`).join(", ")}\n`;
+
+        // Time open for items completed in this period, from first seen to completed
+        const openDurations = history
+          .filter((entry) => entry.event === "completed" && entry.completed_at)
+          .map((entry) => new Date(entry.completed_at!).getTime() - new Date(entry.created_at).getTime())
+          .sort((a, b) => a - b);
+        if (openDurations.length > 0) {
+          const average = openDurations.reduce((sum, ms) => sum + ms, 0) / openDurations.length;
+          const median = openDurations[Math.floor(openDurations.length / 2)];
+          output += `Time open before completion: average ${formatDays(average)}, median ${formatDays(median)}\n`;
+        }
 
-        for (const [noteId, items] of byMeeting) {
-          const firstItem = items[0];
-          output += `## ${firstItem.note_title}\n`;
-          output += `Date: ${firstItem.event_start ?? "N/A"}\n\n`;
-          
-          for (const item of items) {
-            output += `- ${item.is_completed ? "[x]" : "[ ]"} ${item.content}`;
-            if (item.assignee) output += ` (@${item.assignee})`;
-            if (item.due_date) output += ` [due: ${item.due_date}]`;
-            output += "\n";
-          }
-          output += "\n";
+        output += "\n";
+        for (const entry of history) {
+          output += `- ${entry.at.split("T")[0]} **${entry.event.replace("_", " ")}**: ${entry.content}`;
+          if (entry.assignee) output += ` (@${entry.assignee})`;
+          output += ` — ${entry.note_title}\n`;
         }
 
         return {
@@ -1169,9 +1695,10 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case "get_meetings_by_participants": {
-        const { emails, require_all } = args as {
+        const { emails, require_all, include_deleted } = args as {
           emails: string[];
           require_all?: boolean;
+          include_deleted?: boolean;
         };
 
         if (!emails || emails.length === 0) {
@@ -1187,8 +1714,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
         const db = getDatabase();
         const meetings = require_all
-          ? db.getMeetingsWithAllParticipants(emails)
-          : db.getMeetingsByParticipants(emails);
+          ? db.getMeetingsWithAllParticipants(emails, { includeDeleted: include_deleted })
+          : db.getMeetingsByParticipants(emails, { includeDeleted: include_deleted });
 
         if (meetings.length === 0) {
           return {
@@ -1210,6 +1737,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           output += `- Date: ${meeting.event_start ?? "N/A"}\n`;
           output += `- Note ID: ${meeting.id}\n`;
           output += `- Participants: ${participants.length}\n`;
+          if (meeting.deleted_at) output += `- Deleted in Fellow: ${meeting.deleted_at}\n`;
           output += "\n";
         }
 
@@ -1224,7 +1752,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case "search_cached_notes": {
-        const { query } = args as { query: string };
+        const { query, limit, include_deleted } = args as { query: string; limit?: number; include_deleted?: boolean };
 
         if (!query || query.trim().length === 0) {
           return {
@@ -1238,7 +1766,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         }
 
         const db = getDatabase();
-        const notes = db.searchNotes(query);
+        const notes = db.searchNotes(query, { limit: limit ?? 20, includeDeleted: include_deleted });
 
         if (notes.length === 0) {
           return {
@@ -1258,19 +1786,98 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           output += `## ${note.title}\n`;
           output += `- Date: ${note.event_start ?? "N/A"}\n`;
           output += `- Note ID: ${note.id}\n`;
+          if (note.deleted_at) output += `- Deleted in Fellow: ${note.deleted_at}\n`;
           
-          // Show a snippet of matching content
-          if (note.content_markdown) {
-            const lowerContent = note.content_markdown.toLowerCase();
-            const lowerQuery = query.toLowerCase();
-            const matchIndex = lowerContent.indexOf(lowerQuery);
-            if (matchIndex !== -1) {
-              const start = Math.max(0, matchIndex - 50);
-              const end = Math.min(note.content_markdown.length, matchIndex + query.length + 50);
-              let snippet = note.content_markdown.substring(start, end);
-              if (start > 0) snippet = "..." + snippet;
-              if (end < note.content_markdown.length) snippet = snippet + "...";
-              output += `- Snippet: ${snippet.replace(/\n/g, " ")}\n`;
+          // Show highlighted snippets of matching content
+          for (const snippet of note.snippets) {
+            output += `- Snippet: ${snippet}\n`;
+          }
+          output += "\n";
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: output,
+            },
+          ],
+        };
+      }
+
+      case "search_transcripts": {
+        const { query, speaker, since, until, participant, context, sort, limit } = args as {
+          query: string;
+          speaker?: string;
+          since?: string;
+          until?: string;
+          participant?: string;
+          context?: number;
+          sort?: "recent" | "relevance";
+          limit?: number;
+        };
+
+        if (!query || query.trim().length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "Please provide a search query.",
+              },
+            ],
+          };
+        }
+
+        const db = getDatabase();
+        const hits = db.searchTranscripts(query, {
+          speaker,
+          since,
+          until: inclusiveUntil(until),
+          participant,
+          sort: sort ?? "recent",
+          limit: limit ?? 20,
+        });
+
+        if (hits.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `No transcript segments found matching: "${query}"`,
+              },
+            ],
+          };
+        }
+
+        const contextSize = Math.max(0, context ?? 1);
+
+        let output = `# Transcript Search Results for: "${query}"\n\n`;
+        output += `Found ${hits.length} matching segments`;
+        if (speaker) output += `, speaker: ${speaker}`;
+        if (participant) output += `, participant: ${participant}`;
+        if (since) output += `, since: ${since}`;
+        if (until) output += `, until: ${until}`;
+        output += "\n\n";
+
+        for (const hit of hits) {
+          output += `## [${formatTime(hit.start_time)}] ${hit.speaker} — ${hit.recording_title}\n`;
+          output += `- Date: ${hit.event_start ?? "N/A"}\n`;
+          output += `- Recording ID: ${hit.recording_id}\n`;
+          if (hit.note_id) output += `- Note ID: ${hit.note_id}\n`;
+          output += "\n";
+
+          const segments = db.getTranscriptSegments(hit.recording_id, {
+            fromIndex: hit.segment_index - contextSize,
+            toIndex: hit.segment_index + contextSize,
+          });
+          if (segments.length === 0) {
+            output += `> [${formatTime(hit.start_time)}] ${hit.speaker}: ${hit.snippet}\n`;
+          }
+          for (const segment of segments) {
+            if (segment.segment_index === hit.segment_index) {
+              output += `> [${formatTime(segment.start_time)}] ${segment.speaker}: ${hit.snippet}\n`;
+            } else {
+              output += `  [${formatTime(segment.start_time)}] ${segment.speaker}: ${segment.text}\n`;
             }
           }
           output += "\n";
@@ -1286,16 +1893,315 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case "get_speaking_stats": {
+        const { recording_id, note_id, series_title, since, until } = args as {
+          recording_id?: string;
+          note_id?: string;
+          series_title?: string;
+          since?: string;
+          until?: string;
+        };
+
+        const db = getDatabase();
+
+        if (recording_id || note_id) {
+          const resolver = getResolver();
+          let targetRecordingId = recording_id;
+          if (!targetRecordingId && note_id) {
+            const note = await resolver.getNote(note_id);
+            targetRecordingId = note ? resolver.recordingIdForNote(note.value) : undefined;
+          }
+          const recording = targetRecordingId
+            ? await resolver.getRecording(targetRecordingId, { includeTranscript: true })
+            : null;
+
+          if (!recording?.value.transcript || recording.value.transcript.speech_segments.length === 0) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: "No transcript found for this meeting. Please provide a valid recording_id or note_id.",
+                },
+              ],
+            };
+          }
+
+          const stats = computeSpeakingStats(recording.value.transcript.speech_segments);
+          let output = `# Speaking Stats: ${recording.value.title}\n\n`;
+          output += `Recording ID: ${recording.value.id}\n`;
+          output += `Event Start: ${recording.value.event_start ?? "N/A"}\n`;
+          output += `Duration: ${formatTime(stats.duration)}\n`;
+          output += `Total talk time: ${formatTime(stats.total_talk_time)}\n\n`;
+          output += formatSpeakingStats(stats);
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: output,
+              },
+            ],
+          };
+        }
+
+        if (!series_title && !since && !until) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "Please provide a recording_id or note_id, or a series_title and/or date range.",
+              },
+            ],
+          };
+        }
+
+        const recordings = db.getRecordingsWithTranscripts({
+          title: series_title,
+          since,
+          until: inclusiveUntil(until),
+        });
+
+        if (recordings.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "No cached meetings with transcripts match these filters. Run sync_meetings with include_transcripts=true first.",
+              },
+            ],
+          };
+        }
+
+        const perMeeting = recordings.map((recording) => ({
+          recording,
+          stats: computeSpeakingStats(db.getTranscriptSegments(recording.id)),
+        }));
+        const combined = combineSpeakingStats(perMeeting.map((m) => m.stats));
+
+        let output = `# Speaking Stats across ${combined.meetings} meetings\n\n`;
+        if (series_title) output += `Series: ${series_title}\n`;
+        if (since) output += `Since: ${since}\n`;
+        if (until) output += `Until: ${until}\n`;
+        output += `Total duration: ${formatTime(combined.duration)}\n`;
+        output += `Average duration: ${formatTime(combined.duration / combined.meetings)}\n\n`;
+        output += `## By Speaker\n\n${formatSpeakingStats(combined)}\n`;
+        output += "## By Meeting\n\n";
+        for (const { recording, stats } of perMeeting) {
+          const top = stats.speakers[0];
+          output += `- ${recording.event_start ?? recording.created_at} ${recording.title} (${formatTime(stats.duration)})`;
+          if (top) output += ` — top speaker: ${top.speaker} ${(top.share * 100).toFixed(0)}%`;
+          output += "\n";
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: output,
+            },
+          ],
+        };
+      }
+
       case "get_sync_status": {
         const db = getDatabase();
         const stats = db.getStats();
         const lastSync = db.getLastSyncTime();
+        const checkpoint = db.getSyncCheckpoint();
+
+        let checkpointText = "";
+        if (checkpoint) {
+          checkpointText = `## Interrupted Sync (resumes on next sync):\n- Mode: ${checkpoint.mode === "full" ? "Full" : "Incremental"}${checkpoint.include_transcripts ? " with transcripts" : ""}\n- Started: ${checkpoint.started_at}\n- Phase: ${checkpoint.phase}\n\n`;
+        }
+
+        const scheduler = getScheduler().getStatus();
+        let schedulerText = "## Background Sync:\n";
+        if (scheduler.enabled) {
+          schedulerText += `- Interval: every ${scheduler.interval_ms! / 60000} minutes\n`;
+          schedulerText += `- Running now: ${scheduler.running ? "yes" : "no"}\n`;
+          schedulerText += `- Last run: ${scheduler.last_run_finished_at ?? "Never"}`;
+          if (scheduler.last_result) {
+            schedulerText += ` (${scheduler.last_result.notes_synced} notes, ${scheduler.last_result.recordings_synced} recordings)`;
+          }
+          schedulerText += `\n- Next run: ${scheduler.next_run_at ?? (scheduler.running ? "after the current run" : "N/A")}\n`;
+          schedulerText += `- Last error: ${scheduler.last_error ?? "None"}\n\n`;
+        } else {
+          schedulerText += "- Disabled (set --sync-interval or FELLOW_SYNC_INTERVAL to enable)\n\n";
+        }
+
+        const syncScope = getSyncScope(db);
+        const scopeSource = getFileConfig().sync_scope ? " (from config file)" : "";
+        const retention = describeRetention(getFileConfig().retention);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# Sync Status\n\nLast sync: ${lastSync ?? "Never"}\nScope: ${describeScope(syncScope)}${syncScope ? scopeSource : ""}\nRetention: ${retention}\n\n${schedulerText}${checkpointText}## Database Statistics:\n- Total notes: ${stats.notes}\n- Total recordings: ${stats.recordings}\n- Total action items: ${stats.action_items}\n- Unique participants: ${stats.participants}\n- Transcript segments: ${stats.transcript_segments}\n- Deleted (hidden): ${stats.deleted_notes} notes, ${stats.deleted_recordings} recordings\n\n## Database Location:\n${db.getPath()} (schema version ${db.getSchemaVersion()}${db.isEncryptionEnabled() ? ", encrypted" : ""}${db.isReadOnly() ? ", read-only" : ""})`,
+            },
+          ],
+        };
+      }
+
+      case "get_people": {
+        const { query } = args as { query?: string };
+
+        const db = getDatabase();
+        const people = query ? db.findPeople(query) : db.getPeople();
+
+        if (people.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: query
+                  ? `No person found for "${query}".`
+                  : "No people known yet. They are seeded from meeting participants after each sync.",
+              },
+            ],
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `# People\n\n${people.length} ${people.length === 1 ? "person" : "people"}\n\n${people.map(formatPerson).join("\n")}`,
+            },
+          ],
+        };
+      }
+
+      case "update_identity": {
+        const { action, person, kind, alias, name: displayName, merge_with } = args as {
+          action: "link" | "unlink" | "rename" | "merge" | "reseed";
+          person?: string;
+          kind?: AliasKind;
+          alias?: string;
+          name?: string;
+          merge_with?: string;
+        };
+
+        const db = getDatabase();
+        const requireAlias = (): { kind: AliasKind; alias: string } => {
+          if (!kind || !ALIAS_KINDS.includes(kind) || !alias?.trim()) {
+            throw new Error(`${action} needs kind (one of ${ALIAS_KINDS.join(", ")}) and alias`);
+          }
+          return { kind, alias: kind === "handle" ? alias.trim().replace(/^@/, "") : alias.trim() };
+        };
+
+        let text: string;
+        switch (action) {
+          case "link": {
+            const target = requireAlias();
+            const id = person ? resolvePerson(db, person).id : db.createPerson(displayName ?? (target.kind === "email" ? null : target.alias));
+            db.linkAlias(id, target.kind, target.alias);
+            text = `Linked ${target.kind} "${target.alias}" to:\n\n${formatPerson(db.getPerson(id)!)}`;
+            break;
+          }
+          case "unlink": {
+            const target = requireAlias();
+            db.unlinkAlias(target.kind, target.alias);
+            text = `Unlinked ${target.kind} "${target.alias}". Automatic seeding will leave it unlinked.`;
+            break;
+          }
+          case "rename": {
+            if (!person || !displayName) throw new Error("rename needs person and name");
+            const target = resolvePerson(db, person);
+            db.setPersonName(target.id, displayName);
+            text = `Renamed:\n\n${formatPerson(db.getPerson(target.id)!)}`;
+            break;
+          }
+          case "merge": {
+            if (!person || !merge_with) throw new Error("merge needs person and merge_with");
+            const into = resolvePerson(db, person);
+            const from = resolvePerson(db, merge_with);
+            if (into.id === from.id) throw new Error(`"${person}" and "${merge_with}" are already the same person`);
+            db.mergePeople(into.id, from.id);
+            text = `Merged ${from.display_name ?? `ID ${from.id}`} into:\n\n${formatPerson(db.getPerson(into.id)!)}`;
+            break;
+          }
+          case "reseed": {
+            const result = seedIdentities(db);
+            text = `Re-seeded identities: ${result.people_created} new people, ${result.aliases_linked} aliases linked automatically.`;
+            break;
+          }
+          default:
+            throw new Error(`Unknown action: ${action}`);
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text,
+            },
+          ],
+        };
+      }
+
+      case "purge_cache": {
+        const { note_ids, title_pattern, since, until, participant_email, dry_run, allow_resync } = args as {
+          note_ids?: string[];
+          title_pattern?: string;
+          since?: string;
+          until?: string;
+          participant_email?: string;
+          dry_run?: boolean;
+          allow_resync?: boolean;
+        };
+
+        const db = getDatabase();
+        const plan = planPurge(db, {
+          note_ids,
+          title_pattern,
+          since,
+          until: inclusiveUntil(until),
+          participant_email,
+        });
+        const dryRun = dry_run ?? true;
+
+        const MAX_LISTED = 50;
+        const matches = [
+          ...plan.notes.map((note) => `- ${note.date.split("T")[0]} — ${note.title} (note ${note.id})`),
+          ...plan.recordings.map((recording) => `- ${recording.date.split("T")[0]} — ${recording.title} (recording ${recording.id})`),
+        ];
+        let listText = matches.slice(0, MAX_LISTED).join("\n");
+        if (matches.length > MAX_LISTED) {
+          listText += `\n- ...and ${matches.length - MAX_LISTED} more`;
+        }
+
+        const summary = `${plan.notes.length} meetings and ${plan.recordings.length} recordings without a meeting\n\nIncluding: ${plan.impact.recordings} recordings, ${plan.impact.transcript_segments} transcript segments, ${plan.impact.action_items} action items`;
+
+        if (matches.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "No cached meetings match these filters. Nothing to purge.",
+              },
+            ],
+          };
+        }
+
+        if (dryRun) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `# Purge Preview (dry run)\n\nWould permanently delete ${summary}\n\n${listText}\n\nNothing was deleted. Call purge_cache again with dry_run=false to delete.`,
+              },
+            ],
+          };
+        }
+
+        const forgotten = executePurge(db, plan, { allowResync: allow_resync, forgetEmail: participant_email });
 
         return {
           content: [
             {
               type: "text",
-              text: `# Sync Status\n\nLast sync: ${lastSync ?? "Never"}\n\n## Database Statistics:\n- Total notes: ${stats.notes}\n- Total recordings: ${stats.recordings}\n- Total action items: ${stats.action_items}\n- Unique participants: ${stats.participants}\n\n## Database Location:\n~/.fellow-mcp/fellow.db`,
+              text: `# Purge Complete\n\nPermanently deleted ${summary}\n\n${listText}\n\nThe database was compacted so deleted data no longer remains on disk. ${allow_resync ? "These meetings may be downloaded again by the next sync." : "These meetings will be skipped by future syncs."}${forgotten ? ` The identity linked to ${participant_email} was removed too.` : ""}`,
             },
           ],
         };
@@ -1334,9 +2240,88 @@ async function main() {
     return;
   }
 
+  // One-shot transcript export: --export-transcript <recording_id> [--format vtt] [--output <path>]
+  if (process.argv.some((arg) => arg === "--export-transcript" || arg.startsWith("--export-transcript="))) {
+    await runExportTranscript();
+    return;
+  }
+
+  // Key rotation: --rotate-encryption-key with the new key in FELLOW_NEW_ENCRYPTION_KEY or --new-encryption-key-file,
+  // or --remove-encryption to store everything in plaintext again
+  if (process.argv.includes("--rotate-encryption-key") || process.argv.includes("--remove-encryption")) {
+    runRotateEncryptionKey();
+    return;
+  }
+
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error("Fellow MCP server started");
+
+  // Optional background sync: --sync-interval <minutes> / FELLOW_SYNC_INTERVAL (0 disables).
+  // Read on its own so a missing API key still surfaces per tool call rather than at startup
+  const syncIntervalMinutes = getNumberOption("--sync-interval", "FELLOW_SYNC_INTERVAL");
+  if (syncIntervalMinutes && isReadOnly()) {
+    console.error("Background sync disabled: the server is running in read-only mode");
+  } else if (syncIntervalMinutes) {
+    getScheduler().start(syncIntervalMinutes * 60 * 1000);
+    console.error(`Background sync enabled every ${syncIntervalMinutes} minutes`);
+  }
+}
+
+// CLI key rotation; keys are only ever read from the environment or key files, never from tool calls
+function runRotateEncryptionKey() {
+  const removing = process.argv.includes("--remove-encryption");
+  const newKey = removing
+    ? null
+    : getSecretOption("FELLOW_NEW_ENCRYPTION_KEY", "--new-encryption-key-file", "FELLOW_NEW_ENCRYPTION_KEY_FILE");
+  if (!removing && !newKey) {
+    console.error(
+      "Usage: fellow-mcp --rotate-encryption-key --new-encryption-key-file <path> (or set FELLOW_NEW_ENCRYPTION_KEY)\n" +
+        "       fellow-mcp --remove-encryption"
+    );
+    process.exit(1);
+  }
+  if (isReadOnly()) {
+    console.error("Cannot change the encryption key in read-only mode");
+    process.exit(1);
+  }
+
+  const db = getDatabase();
+  db.rotateEncryptionKey(newKey ?? null);
+  console.error(newKey ? `Re-encrypted ${db.getPath()} with the new key` : `Removed encryption from ${db.getPath()}`);
+}
+
+// CLI transcript export
+async function runExportTranscript() {
+  const recordingId = getFlagValue("--export-transcript");
+  const format = (getFlagValue("--format") ?? "vtt") as TranscriptExportFormat;
+  const outputPath = getFlagValue("--output");
+  const overwrite = process.argv.slice(2).includes("--overwrite");
+
+  if (!recordingId) {
+    console.error(
+      "Usage: fellow-mcp --export-transcript <recording_id> [--format vtt|srt|json|markdown|txt] [--output <path> [--overwrite]]"
+    );
+    process.exit(1);
+  }
+  if (!TRANSCRIPT_EXPORT_FORMATS.includes(format)) {
+    console.error(`Unsupported format: ${format}. Use one of: ${TRANSCRIPT_EXPORT_FORMATS.join(", ")}.`);
+    process.exit(1);
+  }
+
+  const resolved = await resolveTranscriptRecording(recordingId, undefined);
+  if (!resolved?.value.transcript) {
+    console.error(resolved ? "No transcript available for this recording." : `Recording not found: ${recordingId}`);
+    process.exit(1);
+  }
+
+  const exported = exportTranscript(resolved.value, format);
+  if (outputPath) {
+    const written = writeTranscriptExport(outputPath, resolved.value, format, exported, { overwrite });
+    console.error(`Exported ${resolved.value.transcript.speech_segments.length} segments to ${written}`);
+  } else {
+    process.stdout.write(exported);
+  }
 }
 
 // CLI test mode
@@ -1358,13 +2343,21 @@ async function runTest() {
 
     // 2. Try to sync (but don't fail if API errors)
     console.log("Syncing notes from API...");
-    try {
-      const syncResult = await syncNotesFromApi(client, db);
-      console.log(`  Notes synced: ${syncResult.notes_synced}`);
-      console.log(`  Action items found: ${syncResult.action_items_found}`);
-    } catch (syncErr) {
-      console.log(`  Sync failed: ${syncErr instanceof Error ? syncErr.message : syncErr}`);
-      console.log("  (continuing with cached data)");
+    if (db.isReadOnly()) {
+      console.log("  Skipped (read-only mode)");
+    } else {
+      try {
+        const syncResult = await syncNotesFromApi(client, db, {
+          scope: getSyncScope(db),
+          retention: getFileConfig().retention,
+          timeZone: getTimeZone(),
+        });
+        console.log(`  Notes synced: ${syncResult.notes_synced}`);
+        console.log(`  Action items found: ${syncResult.action_items_found}`);
+      } catch (syncErr) {
+        console.log(`  Sync failed: ${syncErr instanceof Error ? syncErr.message : syncErr}`);
+        console.log("  (continuing with cached data)");
+      }
     }
     console.log("");
 
@@ -1392,14 +2385,17 @@ async function runTest() {
       // 4. Test action item extraction
       if (noteWithContent.content_markdown) {
         console.log("=== Parsed Action Items ===");
-        const items = extractActionItems(noteWithContent.content_markdown);
+        const items = extractActionItems(noteWithContent.content_markdown, {
+          date: noteWithContent.event_start ?? noteWithContent.created_at,
+          timeZone: getTimeZone(),
+        });
         if (items.length === 0) {
           console.log("(none found)");
         } else {
           for (const item of items) {
             console.log(`- [${item.is_completed ? "x" : " "}] ${item.content}`);
             if (item.assignee) console.log(`    Assignee: ${item.assignee}`);
-            if (item.due_date) console.log(`    Due: ${item.due_date}`);
+            if (item.due_date) console.log(`    Due: ${item.due_date}${item.due_phrase ? ` ("${item.due_phrase}")` : ""}`);
           }
         }
       }
@@ -0,0 +1,425 @@
+import Database from "better-sqlite3";
+import fs from "fs";
+
+/**
+ * A single schema change. Steps run in version order, each in its own
+ * transaction together with the `PRAGMA user_version` bump, so a failed step
+ * leaves the database at the previous version.
+ */
+export interface Migration {
+  version: number;
+  description: string;
+  up: (db: Database.Database) => void;
+  // Rewrite the file after migrating so data the step removed doesn't linger in free pages
+  vacuum?: boolean;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Initial schema: notes, recordings, action items, participants, sync status",
+    up: (db) => {
+      // IF NOT EXISTS: databases from before versioning already have these tables at user_version 0
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS notes (
+          id TEXT PRIMARY KEY,
+          title TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          event_start TEXT,
+          event_end TEXT,
+          event_guid TEXT,
+          call_url TEXT,
+          content_markdown TEXT,
+          synced_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS recordings (
+          id TEXT PRIMARY KEY,
+          note_id TEXT,
+          title TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          event_start TEXT,
+          event_end TEXT,
+          recording_start TEXT,
+          recording_end TEXT,
+          event_guid TEXT,
+          call_url TEXT,
+          transcript_json TEXT,
+          synced_at TEXT NOT NULL,
+          FOREIGN KEY (note_id) REFERENCES notes(id)
+        );
+
+        CREATE TABLE IF NOT EXISTS action_items (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          note_id TEXT NOT NULL,
+          content TEXT NOT NULL,
+          assignee TEXT,
+          due_date TEXT,
+          is_completed INTEGER DEFAULT 0,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY (note_id) REFERENCES notes(id)
+        );
+
+        CREATE TABLE IF NOT EXISTS participants (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          note_id TEXT NOT NULL,
+          email TEXT NOT NULL,
+          FOREIGN KEY (note_id) REFERENCES notes(id),
+          UNIQUE(note_id, email)
+        );
+
+        CREATE TABLE IF NOT EXISTS sync_status (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_notes_event_start ON notes(event_start);
+        CREATE INDEX IF NOT EXISTS idx_notes_title ON notes(title);
+        CREATE INDEX IF NOT EXISTS idx_recordings_note_id ON recordings(note_id);
+        CREATE INDEX IF NOT EXISTS idx_action_items_note_id ON action_items(note_id);
+        CREATE INDEX IF NOT EXISTS idx_action_items_assignee ON action_items(assignee);
+        CREATE INDEX IF NOT EXISTS idx_participants_note_id ON participants(note_id);
+        CREATE INDEX IF NOT EXISTS idx_participants_email ON participants(email);
+      `);
+    },
+  },
+  {
+    version: 2,
+    description: "Full-text search index over note titles and content",
+    up: (db) => {
+      db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS notes_fts USING fts5(
+          note_id UNINDEXED,
+          title,
+          content,
+          tokenize = 'porter unicode61'
+        );
+
+        INSERT INTO notes_fts (note_id, title, content)
+        SELECT id, title, COALESCE(content_markdown, '') FROM notes
+        WHERE id NOT IN (SELECT note_id FROM notes_fts);
+      `);
+    },
+  },
+  {
+    version: 3,
+    description: "Normalized transcript segments and their full-text search index",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS transcript_segments (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          recording_id TEXT NOT NULL,
+          segment_index INTEGER NOT NULL,
+          speaker TEXT NOT NULL,
+          start_time REAL NOT NULL,
+          end_time REAL NOT NULL,
+          text TEXT NOT NULL,
+          FOREIGN KEY (recording_id) REFERENCES recordings(id),
+          UNIQUE(recording_id, segment_index)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_transcript_segments_speaker ON transcript_segments(speaker);
+        CREATE INDEX IF NOT EXISTS idx_transcript_segments_start ON transcript_segments(recording_id, start_time);
+
+        CREATE VIRTUAL TABLE IF NOT EXISTS transcript_fts USING fts5(
+          recording_id UNINDEXED,
+          segment_index UNINDEXED,
+          speaker,
+          text,
+          start_time UNINDEXED,
+          end_time UNINDEXED,
+          tokenize = 'porter unicode61'
+        );
+
+        INSERT OR IGNORE INTO transcript_segments (recording_id, segment_index, speaker, start_time, end_time, text)
+        SELECT r.id, CAST(s.key AS INTEGER),
+          json_extract(s.value, '$.speaker'),
+          json_extract(s.value, '$.start_time'),
+          json_extract(s.value, '$.end_time'),
+          json_extract(s.value, '$.text')
+        FROM recordings r, json_each(r.transcript_json, '$.speech_segments') s
+        WHERE r.transcript_json IS NOT NULL AND json_valid(r.transcript_json);
+
+        INSERT INTO transcript_fts (recording_id, segment_index, speaker, text, start_time, end_time)
+        SELECT recording_id, segment_index, speaker, text, start_time, end_time FROM transcript_segments
+        WHERE recording_id NOT IN (SELECT recording_id FROM transcript_fts);
+      `);
+    },
+  },
+  {
+    version: 4,
+    description: "Soft-delete tombstones for notes and recordings removed in Fellow",
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE notes ADD COLUMN deleted_at TEXT;
+        ALTER TABLE recordings ADD COLUMN deleted_at TEXT;
+
+        CREATE INDEX IF NOT EXISTS idx_notes_deleted_at ON notes(deleted_at);
+        CREATE INDEX IF NOT EXISTS idx_recordings_deleted_at ON recordings(deleted_at);
+      `);
+    },
+  },
+  {
+    version: 5,
+    description: "Encryption-ready layout: participant email lookup keys and search indexes without plaintext copies",
+    up: (db) => {
+      // The search indexes become external-content tables over views that call fellow_decrypt(),
+      // which FellowDatabase registers on every connection, so only index terms are stored
+      db.exec(`
+        ALTER TABLE participants ADD COLUMN email_key TEXT;
+        UPDATE participants SET email_key = lower(trim(email));
+        DELETE FROM participants WHERE id NOT IN (SELECT MIN(id) FROM participants GROUP BY note_id, email_key);
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_participants_note_email_key ON participants(note_id, email_key);
+        CREATE INDEX IF NOT EXISTS idx_participants_email_key ON participants(email_key);
+
+        DROP TABLE IF EXISTS notes_fts;
+        CREATE VIEW notes_fts_source AS
+          SELECT rowid AS note_rowid, id AS note_id, title, COALESCE(fellow_decrypt(content_markdown), '') AS content
+          FROM notes;
+        CREATE VIRTUAL TABLE notes_fts USING fts5(
+          note_id UNINDEXED,
+          title,
+          content,
+          content = 'notes_fts_source',
+          content_rowid = 'note_rowid',
+          tokenize = 'porter unicode61'
+        );
+        INSERT INTO notes_fts (notes_fts) VALUES ('rebuild');
+
+        DROP TABLE IF EXISTS transcript_fts;
+        CREATE VIEW transcript_fts_source AS
+          SELECT id, recording_id, segment_index, speaker, fellow_decrypt(text) AS text, start_time, end_time
+          FROM transcript_segments;
+        CREATE VIRTUAL TABLE transcript_fts USING fts5(
+          recording_id UNINDEXED,
+          segment_index UNINDEXED,
+          speaker,
+          text,
+          start_time UNINDEXED,
+          end_time UNINDEXED,
+          content = 'transcript_fts_source',
+          content_rowid = 'id',
+          tokenize = 'porter unicode61'
+        );
+        INSERT INTO transcript_fts (transcript_fts) VALUES ('rebuild');
+      `);
+    },
+  },
+  {
+    version: 6,
+    description: "Record purged note and recording IDs so syncs don't re-download them",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS purged_items (
+          id TEXT PRIMARY KEY,
+          kind TEXT NOT NULL,
+          purged_at TEXT NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 7,
+    description: "Stable action item fingerprints and lifecycle history",
+    up: (db) => {
+      // Existing items get opaque fingerprints; syncs match them to note content by text, not by fingerprint
+      db.exec(`
+        ALTER TABLE action_items ADD COLUMN fingerprint TEXT;
+        ALTER TABLE action_items ADD COLUMN position INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE action_items ADD COLUMN completed_at TEXT;
+        ALTER TABLE action_items ADD COLUMN removed_at TEXT;
+
+        UPDATE action_items SET
+          fingerprint = lower(hex(randomblob(16))),
+          position = (SELECT COUNT(*) FROM action_items a2 WHERE a2.note_id = action_items.note_id AND a2.id < action_items.id),
+          completed_at = CASE WHEN is_completed THEN created_at END;
+
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_action_items_fingerprint ON action_items(fingerprint);
+
+        CREATE TABLE IF NOT EXISTS action_item_history (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          fingerprint TEXT NOT NULL,
+          note_id TEXT NOT NULL,
+          event TEXT NOT NULL,
+          at TEXT NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_action_item_history_fingerprint ON action_item_history(fingerprint);
+        CREATE INDEX IF NOT EXISTS idx_action_item_history_at ON action_item_history(at);
+
+        INSERT INTO action_item_history (fingerprint, note_id, event, at)
+        SELECT fingerprint, note_id, 'first_seen', created_at FROM action_items;
+        INSERT INTO action_item_history (fingerprint, note_id, event, at)
+        SELECT fingerprint, note_id, 'completed', completed_at FROM action_items WHERE completed_at IS NOT NULL;
+      `);
+    },
+  },
+  {
+    version: 8,
+    description: "Source section and line of each action item",
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE action_items ADD COLUMN section TEXT;
+        ALTER TABLE action_items ADD COLUMN source_line INTEGER;
+      `);
+    },
+  },
+  {
+    version: 9,
+    description: "Original due date phrase of each action item",
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE action_items ADD COLUMN due_phrase TEXT;
+      `);
+    },
+  },
+  {
+    version: 10,
+    description: "People and the handles, names, speaker labels and emails that refer to them",
+    up: (db) => {
+      // An alias with no person_id was unlinked by hand and is never linked automatically again
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS people (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          display_name TEXT,
+          created_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS person_aliases (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          person_id INTEGER,
+          kind TEXT NOT NULL,
+          alias_key TEXT NOT NULL,
+          alias TEXT NOT NULL,
+          source TEXT NOT NULL,
+          FOREIGN KEY (person_id) REFERENCES people(id),
+          UNIQUE(kind, alias_key)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_person_aliases_person_id ON person_aliases(person_id);
+      `);
+    },
+  },
+  {
+    version: 11,
+    description: "Empty the search indexes of encrypted databases, which store every token in plaintext",
+    vacuum: true,
+    up: (db) => {
+      // Encrypted databases search decrypted rows instead; see FellowDatabase.usesSearchIndex
+      const encrypted = db.prepare("SELECT 1 FROM sync_status WHERE key = 'encryption'").get();
+      if (encrypted) {
+        db.exec(`
+          INSERT INTO notes_fts (notes_fts) VALUES ('delete-all');
+          INSERT INTO transcript_fts (transcript_fts) VALUES ('delete-all');
+        `);
+      }
+    },
+  },
+];
+
+// Schema version this build of fellow-mcp writes
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Raised when the database was written by a newer fellow-mcp. Opening it
+ * anyway could silently drop or corrupt columns this build does not know about.
+ */
+export class SchemaVersionError extends Error {
+  readonly dbVersion: number;
+  readonly supportedVersion: number;
+
+  constructor(dbPath: string, dbVersion: number) {
+    super(
+      `Database ${dbPath} has schema version ${dbVersion}, but this fellow-mcp only supports up to version ${SCHEMA_VERSION}. ` +
+        "Upgrade fellow-mcp, or point it at a different database."
+    );
+    this.name = "SchemaVersionError";
+    this.dbVersion = dbVersion;
+    this.supportedVersion = SCHEMA_VERSION;
+  }
+}
+
+/**
+ * Raised when a migration step fails. Earlier steps stay applied, so the
+ * database is left at `version`; `backupPath` holds a copy from before the
+ * upgrade to restore from.
+ */
+export class MigrationError extends Error {
+  readonly version: number;
+  readonly backupPath: string | null;
+
+  constructor(dbPath: string, failedVersion: number, version: number, backupPath: string | null, cause: unknown) {
+    super(
+      `Migrating database ${dbPath} to schema version ${failedVersion} failed: ${cause instanceof Error ? cause.message : String(cause)}. ` +
+        `The database was left at version ${version}` +
+        (backupPath ? `; a copy from before the upgrade is at ${backupPath}.` : ".")
+    );
+    this.name = "MigrationError";
+    this.version = version;
+    this.backupPath = backupPath;
+    this.cause = cause;
+  }
+}
+
+export function getSchemaVersion(db: Database.Database): number {
+  return db.pragma("user_version", { simple: true }) as number;
+}
+
+function hasUserTables(db: Database.Database): boolean {
+  const row = db.prepare("SELECT COUNT(*) as count FROM sqlite_master WHERE type = 'table' AND name = 'notes'").get() as {
+    count: number;
+  };
+  return row.count > 0;
+}
+
+/**
+ * Brings the database up to SCHEMA_VERSION. Existing databases are copied to
+ * `<path>.backup-v<version>-<timestamp>` first; returns the backup path, or
+ * null when no backup was needed.
+ */
+export function migrate(
+  db: Database.Database,
+  dbPath: string,
+  migrations: Migration[] = MIGRATIONS
+): string | null {
+  const current = getSchemaVersion(db);
+  const target = migrations[migrations.length - 1].version;
+
+  if (current > target) {
+    throw new SchemaVersionError(dbPath, current);
+  }
+  if (current === target) {
+    return null;
+  }
+
+  let backupPath: string | null = null;
+  if (dbPath !== ":memory:" && hasUserTables(db)) {
+    backupPath = `${dbPath}.backup-v${current}-${new Date().toISOString().replace(/[:.]/g, "-")}`;
+    if (fs.existsSync(backupPath)) {
+      fs.rmSync(backupPath);
+    }
+    db.prepare("VACUUM INTO ?").run(backupPath);
+  }
+
+  let vacuum = false;
+  for (const migration of migrations) {
+    if (migration.version <= current) continue;
+    try {
+      db.transaction(() => {
+        migration.up(db);
+        db.pragma(`user_version = ${migration.version}`);
+      })();
+    } catch (error) {
+      throw new MigrationError(dbPath, migration.version, getSchemaVersion(db), backupPath, error);
+    }
+    vacuum ||= migration.vacuum === true;
+  }
+  if (vacuum) {
+    db.exec("VACUUM");
+    db.pragma("wal_checkpoint(TRUNCATE)");
+  }
+
+  return backupPath;
+}
@@ -0,0 +1,247 @@
+import { FellowApiError, FellowClient, Note, Recording, Transcript } from "./client.js";
+import { FellowDatabase, StoredNote, StoredRecording, SyncCoverage } from "./database.js";
+import { noteInScope, titleInScope } from "./scope.js";
+
+export type ResolvedSource = "api" | "cache";
+
+export interface Resolved<T> {
+  value: T;
+  source: ResolvedSource;
+  synced_at: string | null;
+}
+
+export interface ResolveOptions {
+  // Skip the cache and always ask the Fellow API
+  fresh?: boolean;
+}
+
+function isNotFoundError(error: unknown): boolean {
+  return error instanceof FellowApiError && error.isNotFound;
+}
+
+// Tombstoned rows were deleted in Fellow and must not be served as cache hits
+function live<T extends { deleted_at: string | null }>(row: T | null): T | null {
+  return row && !row.deleted_at ? row : null;
+}
+
+/**
+ * Whether the sync that recorded `coverage` listed this meeting. Recordings
+ * pass their parent note's attendees, or null without a note. The cache is
+ * pruned to the synced channel, so the channel needs no check.
+ */
+function syncCovers(
+  coverage: SyncCoverage,
+  meeting: { title: string; created_at: string; attendees: string[] | null }
+): boolean {
+  const since = coverage.list_filters.created_at_start;
+  if (since && meeting.created_at < since) {
+    return false;
+  }
+  if (meeting.attendees === null) {
+    return !coverage.scope?.participants && titleInScope(meeting.title, coverage.scope);
+  }
+  return noteInScope({ title: meeting.title, attendees: meeting.attendees }, coverage.scope);
+}
+
+function noteFromCache(db: FellowDatabase, stored: StoredNote): Note {
+  return {
+    id: stored.id,
+    title: stored.title,
+    created_at: stored.created_at,
+    updated_at: stored.updated_at,
+    event_start: stored.event_start ?? undefined,
+    event_end: stored.event_end ?? undefined,
+    event_guid: stored.event_guid ?? undefined,
+    call_url: stored.call_url ?? undefined,
+    recording_ids: db.getRecordingsForNote(stored.id).map((r) => r.id),
+    content_markdown: stored.content_markdown ?? undefined,
+    event_attendees: db.getParticipantsForNote(stored.id),
+  };
+}
+
+function recordingFromCache(stored: StoredRecording): Recording {
+  return {
+    id: stored.id,
+    title: stored.title,
+    note_id: stored.note_id,
+    created_at: stored.created_at,
+    updated_at: stored.updated_at,
+    event_start: stored.event_start ?? undefined,
+    event_end: stored.event_end ?? undefined,
+    recording_start: stored.recording_start ?? undefined,
+    recording_end: stored.recording_end ?? undefined,
+    event_guid: stored.event_guid ?? undefined,
+    call_url: stored.call_url ?? undefined,
+    transcript: stored.transcript_json ? (JSON.parse(stored.transcript_json) as Transcript) : undefined,
+  };
+}
+
+/**
+ * Resolves notes and recordings offline-first: rows written, or listed by a
+ * completed sync, within `maxAgeMs` are answered from the local cache,
+ * everything else goes to the Fellow API.
+ * If the API is unreachable, stale cached rows are returned rather than failing.
+ */
+export class MeetingResolver {
+  private client: FellowClient;
+  private db: FellowDatabase;
+  private maxAgeMs: number;
+
+  constructor(client: FellowClient, db: FellowDatabase, maxAgeMs: number) {
+    this.client = client;
+    this.db = db;
+    this.maxAgeMs = maxAgeMs;
+  }
+
+  // Incremental syncs only rewrite rows that changed, so a completed sync vouches for every cached row it listed
+  private isFresh(
+    syncedAt: string,
+    meeting: { title: string; created_at: string; attendees: string[] | null }
+  ): boolean {
+    let checkedAt = new Date(syncedAt).getTime();
+    const lastSync = this.db.getLastSyncTime();
+    const coverage = this.db.getSyncCoverage();
+    if (lastSync && coverage && syncCovers(coverage, meeting)) {
+      checkedAt = Math.max(checkedAt, new Date(lastSync).getTime());
+    }
+    return Date.now() - checkedAt <= this.maxAgeMs;
+  }
+
+  private noteIsFresh(stored: StoredNote): boolean {
+    return this.isFresh(stored.synced_at, { ...stored, attendees: this.db.getParticipantsForNote(stored.id) });
+  }
+
+  private recordingIsFresh(stored: StoredRecording): boolean {
+    const attendees = stored.note_id ? this.db.getParticipantsForNote(stored.note_id) : null;
+    return this.isFresh(stored.synced_at, { ...stored, attendees });
+  }
+
+  private fromCache(stored: StoredNote): Resolved<Note> {
+    return { value: noteFromCache(this.db, stored), source: "cache", synced_at: stored.synced_at };
+  }
+
+  async getNote(noteId: string, options: ResolveOptions = {}): Promise<Resolved<Note> | null> {
+    const cached = live(this.db.getNote(noteId));
+    if (cached && !options.fresh && this.noteIsFresh(cached)) {
+      return this.fromCache(cached);
+    }
+
+    try {
+      const note = await this.client.getNote(noteId);
+      return { value: note, source: "api", synced_at: null };
+    } catch (error) {
+      if (cached) {
+        return this.fromCache(cached);
+      }
+      if (isNotFoundError(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async findNoteByTitle(
+    title: string,
+    options: ResolveOptions & { include_content?: boolean; include_attendees?: boolean } = {}
+  ): Promise<Resolved<Note> | null> {
+    const cached = this.db.findNoteByTitle(title);
+    if (cached && !options.fresh && this.noteIsFresh(cached)) {
+      return this.fromCache(cached);
+    }
+
+    try {
+      const notesResp = await this.client.listNotes({
+        title,
+        include_content: options.include_content,
+        include_attendees: options.include_attendees,
+        page_size: 1,
+      });
+      const note = notesResp.notes.data[0];
+      return note ? { value: note, source: "api", synced_at: null } : null;
+    } catch (error) {
+      if (cached) {
+        return this.fromCache(cached);
+      }
+      throw error;
+    }
+  }
+
+  async getRecording(
+    recordingId: string,
+    options: ResolveOptions & { includeTranscript?: boolean } = {}
+  ): Promise<Resolved<Recording> | null> {
+    const cached = live(this.db.getRecording(recordingId));
+    const cachedResult = (): Resolved<Recording> | null =>
+      cached ? { value: recordingFromCache(cached), source: "cache", synced_at: cached.synced_at } : null;
+
+    if (
+      cached &&
+      !options.fresh &&
+      this.recordingIsFresh(cached) &&
+      (!options.includeTranscript || cached.transcript_json)
+    ) {
+      return cachedResult();
+    }
+
+    let recording: Recording;
+    try {
+      recording = await this.client.getRecording(recordingId);
+    } catch (error) {
+      if (cached) {
+        return cachedResult();
+      }
+      if (isNotFoundError(error)) {
+        return null;
+      }
+      throw error;
+    }
+
+    if (!options.includeTranscript || recording.transcript) {
+      return { value: recording, source: "api", synced_at: null };
+    }
+
+    // Prefer a cached transcript over another round trip
+    if (cached?.transcript_json) {
+      return {
+        value: { ...recording, transcript: JSON.parse(cached.transcript_json) as Transcript },
+        source: "api",
+        synced_at: null,
+      };
+    }
+
+    // The single-recording endpoint may omit the transcript; narrow the list query
+    // to the recording's calendar event so we only walk a handful of rows
+    if (recording.event_guid) {
+      let cursor: string | null = null;
+      do {
+        const recordingsResp = await this.client.listRecordings({
+          event_guid: recording.event_guid,
+          include_transcript: true,
+          cursor: cursor ?? undefined,
+          page_size: 50,
+        });
+        const match = recordingsResp.recordings.data.find((r) => r.id === recordingId);
+        if (match) {
+          return { value: match, source: "api", synced_at: null };
+        }
+        cursor = recordingsResp.recordings.page_info.cursor;
+      } while (cursor);
+    }
+
+    return { value: recording, source: "api", synced_at: null };
+  }
+
+  /**
+   * Picks the recording that belongs to a note, using the note's own
+   * `recording_ids` first and the cache second.
+   */
+  recordingIdForNote(note: Note): string | undefined {
+    return note.recording_ids?.[0] ?? this.db.getRecordingsForNote(note.id)[0]?.id;
+  }
+}
+
+export function describeSource(resolved: Resolved<unknown>): string {
+  return resolved.source === "cache"
+    ? `local cache (synced ${resolved.synced_at})`
+    : "Fellow API";
+}
@@ -0,0 +1,172 @@
+import { FellowDatabase } from "./database.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long cached data is kept. Unset fields keep data forever.
+export interface RetentionPolicy {
+  // Drop stored transcripts of recordings older than N days (the recordings themselves stay)
+  transcript_days?: number;
+  // Delete notes, with their recordings, action items and participants, older than N days
+  note_days?: number;
+}
+
+// Meetings starting at or before these timestamps are past the policy; unset ones never expire
+export interface RetentionCutoffs {
+  notes?: string;
+  transcripts?: string;
+}
+
+export interface RetentionResult {
+  notes_expired: number;
+  recordings_expired: number;
+  transcripts_expired: number;
+}
+
+// Which cached meetings to purge; every given filter must match
+export interface PurgeCriteria {
+  note_ids?: string[];
+  // Case-insensitive regular expression matched against meeting titles
+  title_pattern?: string;
+  since?: string;
+  until?: string;
+  participant_email?: string;
+}
+
+export interface PurgePlan {
+  notes: { id: string; title: string; date: string }[];
+  recordings: { id: string; title: string; date: string }[];
+  impact: { recordings: number; transcript_segments: number; action_items: number };
+}
+
+// Validates a retention policy from the config file
+export function normalizeRetention(raw: unknown): RetentionPolicy {
+  if (raw === null || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error("Retention must be an object");
+  }
+  const input = raw as Record<string, unknown>;
+  const policy: RetentionPolicy = {};
+
+  for (const field of ["transcript_days", "note_days"] as const) {
+    if (input[field] === undefined || input[field] === null) continue;
+    const days = Number(input[field]);
+    if (!Number.isFinite(days) || days <= 0) {
+      throw new Error(`Retention ${field} must be a positive number`);
+    }
+    policy[field] = days;
+  }
+
+  return policy;
+}
+
+export function describeRetention(policy: RetentionPolicy | undefined): string {
+  if (!policy || (policy.note_days === undefined && policy.transcript_days === undefined)) {
+    return "Keep everything";
+  }
+  const parts: string[] = [];
+  if (policy.note_days !== undefined) parts.push(`meetings for ${policy.note_days} days`);
+  if (policy.transcript_days !== undefined) parts.push(`transcripts for ${policy.transcript_days} days`);
+  return `Keep ${parts.join(", ")}`;
+}
+
+export function retentionCutoffs(policy: RetentionPolicy | null | undefined, now: Date = new Date()): RetentionCutoffs {
+  const cutoff = (days: number | undefined) =>
+    days === undefined ? undefined : new Date(now.getTime() - days * DAY_MS).toISOString();
+  return { notes: cutoff(policy?.note_days), transcripts: cutoff(policy?.transcript_days) };
+}
+
+// Whether a meeting starting at `date` is past `cutoff`
+export function isExpired(date: string, cutoff: string | undefined): boolean {
+  return cutoff !== undefined && date <= cutoff;
+}
+
+/**
+ * Deletes cached data older than the policy allows and vacuums the database
+ * when anything was removed. Expired meetings are not remembered as purged,
+ * so a longer policy brings them back; syncs skip them meanwhile.
+ */
+export function applyRetention(db: FellowDatabase, policy: RetentionPolicy, now: Date = new Date()): RetentionResult {
+  const result: RetentionResult = { notes_expired: 0, recordings_expired: 0, transcripts_expired: 0 };
+  const cutoffs = retentionCutoffs(policy, now);
+
+  if (cutoffs.notes !== undefined) {
+    const expired = db.findPurgeCandidates({ until: cutoffs.notes });
+    db.deleteNotes(expired.notes.map((note) => note.id));
+    db.deleteRecordings(expired.recordings.map((recording) => recording.id));
+    result.notes_expired = expired.notes.length;
+    result.recordings_expired = expired.recordings.length;
+  }
+
+  if (cutoffs.transcripts !== undefined) {
+    result.transcripts_expired = db.deleteTranscriptsBefore(cutoffs.transcripts);
+  }
+
+  if (result.notes_expired > 0 || result.recordings_expired > 0 || result.transcripts_expired > 0) {
+    db.vacuum();
+  }
+  return result;
+}
+
+// Works out what a purge would delete without changing anything
+export function planPurge(db: FellowDatabase, criteria: PurgeCriteria): PurgePlan {
+  if (
+    !criteria.note_ids?.length &&
+    !criteria.title_pattern &&
+    !criteria.since &&
+    !criteria.until &&
+    !criteria.participant_email
+  ) {
+    throw new Error("Purge needs at least one of note_ids, title_pattern, since, until or participant_email");
+  }
+
+  let titlePattern: RegExp | null = null;
+  if (criteria.title_pattern) {
+    try {
+      titlePattern = new RegExp(criteria.title_pattern, "i");
+    } catch {
+      throw new Error(`Invalid title_pattern regular expression: ${criteria.title_pattern}`);
+    }
+  }
+
+  const candidates = db.findPurgeCandidates({
+    noteIds: criteria.note_ids?.length ? criteria.note_ids : undefined,
+    since: criteria.since,
+    until: criteria.until,
+    participant: criteria.participant_email,
+  });
+  const notes = candidates.notes.filter((note) => !titlePattern || titlePattern.test(note.title));
+  const recordings = candidates.recordings.filter((recording) => !titlePattern || titlePattern.test(recording.title));
+
+  return {
+    notes,
+    recordings,
+    impact: db.countPurgeImpact(
+      notes.map((note) => note.id),
+      recordings.map((recording) => recording.id)
+    ),
+  };
+}
+
+/**
+ * Deletes everything in the plan, plus the identity of `forgetEmail` when
+ * given, and vacuums so the data is gone from disk. Unless `allowResync` is
+ * set, the IDs are recorded so syncs skip them. Returns whether an identity
+ * was removed.
+ */
+export function executePurge(
+  db: FellowDatabase,
+  plan: PurgePlan,
+  options: { allowResync?: boolean; forgetEmail?: string } = {}
+): boolean {
+  const noteIds = plan.notes.map((note) => note.id);
+  const recordingIds = plan.recordings.map((recording) => recording.id);
+  const forgotten = db.transaction(() => {
+    db.deleteNotes(noteIds);
+    db.deleteRecordings(recordingIds);
+    if (!options.allowResync) {
+      db.recordPurged(noteIds, recordingIds);
+    }
+    return options.forgetEmail ? db.deletePersonByEmail(options.forgetEmail) : false;
+  });
+  db.vacuum();
+  return forgotten;
+}
@@ -0,0 +1,128 @@
+import { SyncResult } from "./sync.js";
+
+export interface SchedulerStatus {
+  enabled: boolean;
+  interval_ms: number | null;
+  running: boolean;
+  last_run_started_at: string | null;
+  last_run_finished_at: string | null;
+  last_result: SyncResult | null;
+  last_error: string | null;
+  next_run_at: string | null;
+}
+
+/**
+ * Serializes every sync in the process and optionally runs incremental syncs
+ * on a timer. Only one sync talks to the API and writes the database at a
+ * time: `syncNow` joins a sync that is already running, `runExclusive` waits
+ * for it and then runs its own.
+ */
+export class SyncScheduler {
+  private runSync: () => Promise<SyncResult | null>;
+  private intervalMs: number | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private inFlight: Promise<unknown> | null = null;
+  private incremental: Promise<SyncResult | null> | null = null;
+  private lastRunStartedAt: string | null = null;
+  private lastRunFinishedAt: string | null = null;
+  private lastResult: SyncResult | null = null;
+  private lastError: string | null = null;
+  private nextRunAt: string | null = null;
+
+  // `runSync` performs one incremental sync; it is what the timer and `syncNow` run
+  constructor(runSync: () => Promise<SyncResult | null>) {
+    this.runSync = runSync;
+  }
+
+  get enabled(): boolean {
+    return this.intervalMs !== null;
+  }
+
+  /**
+   * Starts background syncing: one run right away, then one `intervalMs`
+   * after each run finishes. The timer does not keep the process alive.
+   */
+  start(intervalMs: number): void {
+    this.stop();
+    this.intervalMs = intervalMs;
+    this.schedule(0);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.intervalMs = null;
+    this.nextRunAt = null;
+  }
+
+  // Runs an incremental sync, or joins the one already in progress
+  syncNow(): Promise<SyncResult | null> {
+    if (!this.incremental) {
+      this.incremental = this.runExclusive(this.runSync).finally(() => {
+        this.incremental = null;
+      });
+    }
+    return this.incremental;
+  }
+
+  // Runs `fn` once no other sync is in progress
+  async runExclusive<T extends SyncResult | null>(fn: () => Promise<T>): Promise<T> {
+    while (this.inFlight) {
+      await this.inFlight.catch(() => undefined);
+    }
+
+    const run = this.track(fn);
+    this.inFlight = run;
+    try {
+      return await run;
+    } finally {
+      this.inFlight = null;
+    }
+  }
+
+  getStatus(): SchedulerStatus {
+    return {
+      enabled: this.enabled,
+      interval_ms: this.intervalMs,
+      running: this.inFlight !== null,
+      last_run_started_at: this.lastRunStartedAt,
+      last_run_finished_at: this.lastRunFinishedAt,
+      last_result: this.lastResult,
+      last_error: this.lastError,
+      next_run_at: this.nextRunAt,
+    };
+  }
+
+  private async track<T extends SyncResult | null>(fn: () => Promise<T>): Promise<T> {
+    this.lastRunStartedAt = new Date().toISOString();
+    try {
+      const result = await fn();
+      this.lastResult = result;
+      this.lastError = null;
+      return result;
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      throw error;
+    } finally {
+      this.lastRunFinishedAt = new Date().toISOString();
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    this.nextRunAt = new Date(Date.now() + delayMs).toISOString();
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.nextRunAt = null;
+      this.syncNow()
+        .catch((error) => console.error("Background sync failed:", error))
+        .finally(() => {
+          if (this.intervalMs !== null) {
+            this.schedule(this.intervalMs);
+          }
+        });
+    }, delayMs);
+    this.timer.unref();
+  }
+}
@@ -0,0 +1,171 @@
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { normalizeRetention, RetentionPolicy } from "./retention.js";
+
+// Limits which meetings a sync pulls into the local cache. Unset fields don't restrict anything.
+export interface SyncScope {
+  // Only notes and recordings from this Fellow channel
+  channel_id?: string;
+  // Only meetings created within the last N days
+  max_age_days?: number;
+  // Skip meetings whose title matches any of these regular expressions (case-insensitive)
+  exclude_title_patterns?: string[];
+  // Only meetings attended by at least one of these email addresses
+  participants?: string[];
+}
+
+export interface FileConfig {
+  sync_scope?: SyncScope;
+  retention?: RetentionPolicy;
+}
+
+export const DEFAULT_CONFIG_PATH = path.join(os.homedir(), ".fellow-mcp", "config.json");
+
+/**
+ * Validates a scope from a tool call or config file and drops empty fields.
+ * Throws on malformed values, including title patterns that aren't valid regexes.
+ */
+export function normalizeScope(raw: unknown): SyncScope {
+  if (raw === null || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error("Sync scope must be an object");
+  }
+  const input = raw as Record<string, unknown>;
+  const scope: SyncScope = {};
+
+  if (input.channel_id !== undefined && input.channel_id !== null && input.channel_id !== "") {
+    if (typeof input.channel_id !== "string") {
+      throw new Error("Sync scope channel_id must be a string");
+    }
+    scope.channel_id = input.channel_id;
+  }
+
+  if (input.max_age_days !== undefined && input.max_age_days !== null) {
+    const days = Number(input.max_age_days);
+    if (!Number.isFinite(days) || days <= 0) {
+      throw new Error("Sync scope max_age_days must be a positive number");
+    }
+    scope.max_age_days = days;
+  }
+
+  const stringList = (field: string): string[] | undefined => {
+    const value = input[field];
+    if (value === undefined || value === null) return undefined;
+    if (!Array.isArray(value) || value.some((v) => typeof v !== "string")) {
+      throw new Error(`Sync scope ${field} must be a list of strings`);
+    }
+    const list = (value as string[]).map((v) => v.trim()).filter((v) => v.length > 0);
+    return list.length > 0 ? list : undefined;
+  };
+
+  const patterns = stringList("exclude_title_patterns");
+  if (patterns) {
+    for (const pattern of patterns) {
+      try {
+        new RegExp(pattern, "i");
+      } catch {
+        throw new Error(`Sync scope exclude_title_patterns has an invalid regular expression: ${pattern}`);
+      }
+    }
+    scope.exclude_title_patterns = patterns;
+  }
+
+  const participants = stringList("participants");
+  if (participants) {
+    scope.participants = participants.map((email) => email.toLowerCase());
+  }
+
+  return scope;
+}
+
+export function isEmptyScope(scope: SyncScope | null): boolean {
+  return !scope || Object.keys(scope).length === 0;
+}
+
+// Reads the JSON config file; a missing file means no configuration
+export function loadConfigFile(configPath: string): FileConfig {
+  if (!fs.existsSync(configPath)) {
+    return {};
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(configPath, "utf8"));
+  } catch (error) {
+    throw new Error(`Could not read config file ${configPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const config = (parsed ?? {}) as Record<string, unknown>;
+  return {
+    sync_scope: config.sync_scope !== undefined ? normalizeScope(config.sync_scope) : undefined,
+    retention: config.retention !== undefined ? normalizeRetention(config.retention) : undefined,
+  };
+}
+
+// API list filters implementing the channel and date parts of a scope
+export interface ScopeListFilters {
+  channel_id?: string;
+  created_at_start?: string;
+}
+
+export function scopeListFilters(scope: SyncScope | null): ScopeListFilters {
+  if (!scope) return {};
+  return {
+    channel_id: scope.channel_id,
+    created_at_start:
+      scope.max_age_days !== undefined
+        ? new Date(Date.now() - scope.max_age_days * 24 * 60 * 60 * 1000).toISOString()
+        : undefined,
+  };
+}
+
+// Identifies a scope so a sync can tell it changed since the last one; no scope and an empty scope are the same
+export function scopeKey(scope: SyncScope | null): string {
+  const canonical = JSON.stringify([
+    scope?.channel_id ?? null,
+    scope?.max_age_days ?? null,
+    scope?.exclude_title_patterns ?? [],
+    [...(scope?.participants ?? [])].sort(),
+  ]);
+  return crypto.createHash("sha256").update(canonical).digest("hex");
+}
+
+export function titleInScope(title: string, scope: SyncScope | null): boolean {
+  return !scope?.exclude_title_patterns?.some((pattern) => new RegExp(pattern, "i").test(title));
+}
+
+/**
+ * Whether a note passes the title and participant parts of a scope, which the
+ * API can't filter on. A participant scope excludes notes without attendee data.
+ */
+export function noteInScope(note: { title: string; attendees: string[] }, scope: SyncScope | null): boolean {
+  if (!scope) return true;
+
+  if (!titleInScope(note.title, scope)) {
+    return false;
+  }
+
+  if (scope.participants) {
+    const attendees = new Set(note.attendees.map((email) => email.trim().toLowerCase()));
+    if (!scope.participants.some((email) => attendees.has(email))) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+export function describeScope(scope: SyncScope | null): string {
+  if (!scope || isEmptyScope(scope)) {
+    return "Entire workspace";
+  }
+  const parts: string[] = [];
+  if (scope.channel_id) parts.push(`channel ${scope.channel_id}`);
+  if (scope.max_age_days !== undefined) parts.push(`created in the last ${scope.max_age_days} days`);
+  if (scope.exclude_title_patterns) {
+    parts.push(`excluding titles matching ${scope.exclude_title_patterns.map((p) => `/${p}/i`).join(", ")}`);
+  }
+  if (scope.participants) parts.push(`only meetings with ${scope.participants.join(", ")}`);
+  return parts.join("; ");
+}
@@ -0,0 +1,666 @@
+import { extractActionItems } from "./actionItems.js";
+import { FellowApiError, FellowClient, FellowRequestCancelledError, Note } from "./client.js";
+import { FellowDatabase, NoteWrite, RecordingInput, SyncCheckpoint } from "./database.js";
+import { seedIdentities } from "./identities.js";
+import { applyRetention, isExpired, retentionCutoffs, RetentionPolicy } from "./retention.js";
+import { noteInScope, scopeKey, ScopeListFilters, scopeListFilters, SyncScope, titleInScope } from "./scope.js";
+
+// Sync helper functions
+export interface SyncResult {
+  // What the run actually did: a full sync when there was no previous one, the scope changed or a full checkpoint resumed
+  mode: SyncCheckpoint["mode"];
+  notes_synced: number;
+  recordings_synced: number;
+  action_items_found: number;
+  participants_synced: number;
+  resumed: boolean;
+  reconciled: boolean;
+  notes_deleted: number;
+  recordings_deleted: number;
+  recordings_moved: number;
+  recordings_recovered: number;
+  recordings_orphaned: number;
+  notes_out_of_scope: number;
+  recordings_out_of_scope: number;
+  scope_changed: boolean;
+  notes_pruned: number;
+  recordings_pruned: number;
+  notes_skipped_purged: number;
+  recordings_skipped_purged: number;
+  notes_skipped_expired: number;
+  recordings_skipped_expired: number;
+  notes_expired: number;
+  recordings_expired: number;
+  transcripts_expired: number;
+}
+
+// Snapshot reported after every page fetched, for progress notifications
+export interface SyncProgress {
+  phase: "notes" | "recordings" | "reconcile";
+  pages: number;
+  notes_processed: number;
+  recordings_processed: number;
+}
+
+export interface SyncOptions {
+  since?: string;
+  includeTranscripts?: boolean;
+  reconcile?: boolean;
+  scope?: SyncScope | null;
+  // Meetings older than the policy allows are skipped, and the cache is trimmed to it afterwards
+  retention?: RetentionPolicy | null;
+  // IANA time zone relative due dates are resolved in; the system zone by default
+  timeZone?: string;
+  onProgress?: (progress: SyncProgress) => void;
+  // Stops the sync, aborting the request in flight; completed pages stay committed and the checkpoint resumes it
+  signal?: AbortSignal;
+}
+
+export class SyncCancelledError extends Error {
+  constructor() {
+    super("Sync cancelled; the next sync resumes from the last completed page");
+    this.name = "SyncCancelledError";
+  }
+}
+
+export function emptySyncResult(): SyncResult {
+  return {
+    mode: "incremental",
+    notes_synced: 0,
+    recordings_synced: 0,
+    action_items_found: 0,
+    participants_synced: 0,
+    resumed: false,
+    reconciled: false,
+    notes_deleted: 0,
+    recordings_deleted: 0,
+    recordings_moved: 0,
+    recordings_recovered: 0,
+    recordings_orphaned: 0,
+    notes_out_of_scope: 0,
+    recordings_out_of_scope: 0,
+    scope_changed: false,
+    notes_pruned: 0,
+    recordings_pruned: 0,
+    notes_skipped_purged: 0,
+    recordings_skipped_purged: 0,
+    notes_skipped_expired: 0,
+    recordings_skipped_expired: 0,
+    notes_expired: 0,
+    recordings_expired: 0,
+    transcripts_expired: 0,
+  };
+}
+
+const PAGE_SIZE = 50;
+
+/**
+ * Picks up a persisted checkpoint when it is compatible with the requested
+ * run. A checkpoint for the same scope that fetches at least as much as the
+ * request (full covers incremental, with-transcripts covers without) is
+ * resumed as-is, including the list filters it computed when it started.
+ */
+function resumeOrStartCheckpoint(
+  db: FellowDatabase,
+  options: { since?: string; includeTranscripts?: boolean; scope?: SyncScope | null }
+): { checkpoint: SyncCheckpoint; resumed: boolean } {
+  const mode = options.since ? "incremental" : "full";
+  const includeTranscripts = options.includeTranscripts ?? false;
+  const key = scopeKey(options.scope ?? null);
+  const existing = db.getSyncCheckpoint();
+
+  if (
+    existing &&
+    existing.scope_key === key &&
+    (existing.include_transcripts || !includeTranscripts) &&
+    (existing.mode === mode || existing.mode === "full")
+  ) {
+    return { checkpoint: existing, resumed: true };
+  }
+
+  return {
+    checkpoint: {
+      mode,
+      since: options.since ?? null,
+      include_transcripts: includeTranscripts,
+      started_at: new Date().toISOString(),
+      phase: "notes",
+      notes_cursor: null,
+      recordings_cursor: null,
+      scope_key: key,
+      list_filters: scopeListFilters(options.scope ?? null),
+    },
+    resumed: false,
+  };
+}
+
+/**
+ * Fetches one page, restarting the phase from the beginning if the API
+ * rejects a cursor persisted by an earlier run (cursors can expire).
+ */
+async function fetchPage<T>(
+  load: (cursor: string | null) => Promise<T>,
+  cursor: string | null,
+  fromCheckpoint: boolean
+): Promise<T> {
+  try {
+    return await load(cursor);
+  } catch (error) {
+    if (
+      fromCheckpoint &&
+      cursor &&
+      error instanceof FellowApiError &&
+      error.status !== null &&
+      error.status >= 400 &&
+      error.status < 500 &&
+      error.status !== 429
+    ) {
+      return load(null);
+    }
+    throw error;
+  }
+}
+
+// Builds the note row plus the action items and participants derived from it
+function toNoteWrite(note: Note, timeZone: string | undefined): NoteWrite {
+  // Extract action items, resolving relative due dates against the meeting date
+  const reference = { date: note.event_start ?? note.created_at, timeZone };
+  const actionItems = note.content_markdown
+    ? extractActionItems(note.content_markdown, reference).map((item) => ({
+        content: item.content,
+        assignee: item.assignee,
+        due_date: item.due_date,
+        due_phrase: item.due_phrase,
+        is_completed: item.is_completed,
+        section: item.section,
+        source_line: item.line,
+      }))
+    : null;
+
+  // Collect participants
+  const participants =
+    note.event_attendees && note.event_attendees.length > 0
+      ? note.event_attendees
+          .filter((email) => email && typeof email === "string" && email.trim())
+          .map((email) => email.trim())
+      : null;
+
+  return {
+    note: {
+      id: note.id,
+      title: note.title,
+      created_at: note.created_at,
+      updated_at: note.updated_at,
+      event_start: note.event_start ?? null,
+      event_end: note.event_end ?? null,
+      event_guid: note.event_guid ?? null,
+      call_url: note.call_url ?? null,
+      content_markdown: note.content_markdown ?? null,
+    },
+    action_items: actionItems,
+    participants,
+  };
+}
+
+// A tombstoned note doesn't count: a recording pointing at one fetches it again, or is orphaned if Fellow no longer has it
+function hasLiveNote(db: FellowDatabase, id: string): boolean {
+  const note = db.getNote(id);
+  return note !== null && note.deleted_at === null;
+}
+
+function countNoteWrite(result: SyncResult, write: NoteWrite): void {
+  result.notes_synced++;
+  result.action_items_found += write.action_items?.length ?? 0;
+  result.participants_synced += write.participants?.length ?? 0;
+}
+
+// Whether the scope differs from the one the last completed sync ran with
+function scopeChanged(db: FellowDatabase, scope: SyncScope | null): boolean {
+  // Nothing is cached before the first sync; databases synced before the scope was recorded count as unscoped
+  if (!db.getLastSyncTime()) return false;
+  return (db.getSyncedScopeKey() ?? scopeKey(null)) !== scopeKey(scope);
+}
+
+/**
+ * Removes cached notes and recordings that the scope's title, participant and
+ * age rules exclude, so narrowing the scope also clears meetings that were
+ * synced before it, and max_age_days keeps dropping meetings as they age out.
+ */
+function pruneOutOfScope(db: FellowDatabase, scope: SyncScope, filters: ScopeListFilters, result: SyncResult): void {
+  const cutoff = filters.created_at_start ? new Date(filters.created_at_start).getTime() : null;
+  const tooOld = (createdAt: string) => cutoff !== null && new Date(createdAt).getTime() < cutoff;
+
+  const recordings: string[] = [];
+  // A note created before the cutoff stays while it has a recording inside it
+  const keptParents = new Set<string>();
+  for (const recording of db.getRecordingScopeRows()) {
+    if (tooOld(recording.created_at) || !titleInScope(recording.title, scope)) {
+      recordings.push(recording.id);
+    } else if (recording.note_id) {
+      keptParents.add(recording.note_id);
+    }
+  }
+
+  const notes = db
+    .getAllNotes({ includeDeleted: true })
+    .filter(
+      (note) =>
+        (tooOld(note.created_at) && !keptParents.has(note.id)) ||
+        !noteInScope({ title: note.title, attendees: db.getParticipantsForNote(note.id) }, scope)
+    )
+    .map((note) => note.id);
+
+  db.transaction(() => {
+    db.deleteRecordings(recordings);
+    db.deleteNotes(notes);
+  });
+
+  result.notes_pruned = notes.length;
+  result.recordings_pruned = recordings.length;
+}
+
+/**
+ * Removes cached notes and recordings that aren't listed in the scope's
+ * channel. The cache doesn't record channels, so this takes a listing of the
+ * channel's IDs; it runs when the scope changes rather than on every sync.
+ */
+async function pruneOutsideChannel(
+  client: FellowClient,
+  db: FellowDatabase,
+  channelId: string,
+  result: SyncResult,
+  progress: SyncProgress,
+  options: SyncOptions
+): Promise<void> {
+  progress.phase = "reconcile";
+  const channelNotes = new Set<string>();
+  let cursor: string | null = null;
+  do {
+    throwIfCancelled(options.signal);
+    const notesResp = await client.listNotes({
+      channel_id: channelId,
+      cursor: cursor ?? undefined,
+      page_size: PAGE_SIZE,
+      signal: options.signal,
+    });
+    for (const note of notesResp.notes.data) {
+      channelNotes.add(note.id);
+    }
+    cursor = notesResp.notes.page_info.cursor;
+    reportPage(progress, options);
+  } while (cursor);
+
+  const channelRecordings = new Set<string>();
+  cursor = null;
+  do {
+    throwIfCancelled(options.signal);
+    const recordingsResp = await client.listRecordings({
+      channel_id: channelId,
+      cursor: cursor ?? undefined,
+      page_size: PAGE_SIZE,
+      signal: options.signal,
+    });
+    for (const recording of recordingsResp.recordings.data) {
+      channelRecordings.add(recording.id);
+    }
+    cursor = recordingsResp.recordings.page_info.cursor;
+    reportPage(progress, options);
+  } while (cursor);
+
+  const notes = db.getAllNotes({ includeDeleted: true }).filter((note) => !channelNotes.has(note.id)).map((note) => note.id);
+  const recordings = db
+    .getRecordingScopeRows()
+    .filter((recording) => !channelRecordings.has(recording.id))
+    .map((recording) => recording.id);
+  db.transaction(() => {
+    db.deleteNotes(notes);
+    db.deleteRecordings(recordings);
+  });
+  result.notes_pruned += notes.length;
+  result.recordings_pruned += recordings.length;
+}
+
+function throwIfCancelled(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw new SyncCancelledError();
+  }
+}
+
+function reportPage(progress: SyncProgress, options: SyncOptions): void {
+  progress.pages++;
+  options.onProgress?.({ ...progress });
+}
+
+/**
+ * Walks every note and recording ID in Fellow and tombstones local rows that
+ * are gone. Updated-since listings never report deletions, so this is the only
+ * way removed notes leave the cache. Recordings that moved to a different note
+ * are re-pointed. Nothing is marked unless the full listing completed.
+ */
+async function reconcileDeletions(
+  client: FellowClient,
+  db: FellowDatabase,
+  result: SyncResult,
+  progress: SyncProgress,
+  options: SyncOptions
+): Promise<void> {
+  progress.phase = "reconcile";
+  const remoteNoteIds = new Set<string>();
+  let cursor: string | null = null;
+  do {
+    throwIfCancelled(options.signal);
+    const notesResp = await client.listNotes({ cursor: cursor ?? undefined, page_size: PAGE_SIZE, signal: options.signal });
+    for (const note of notesResp.notes.data) {
+      remoteNoteIds.add(note.id);
+    }
+    cursor = notesResp.notes.page_info.cursor;
+    reportPage(progress, options);
+  } while (cursor);
+
+  const remoteRecordingNotes = new Map<string, string | null>();
+  cursor = null;
+  do {
+    throwIfCancelled(options.signal);
+    const recordingsResp = await client.listRecordings({
+      cursor: cursor ?? undefined,
+      page_size: PAGE_SIZE,
+      signal: options.signal,
+    });
+    for (const recording of recordingsResp.recordings.data) {
+      remoteRecordingNotes.set(recording.id, recording.note_id ?? null);
+    }
+    cursor = recordingsResp.recordings.page_info.cursor;
+    reportPage(progress, options);
+  } while (cursor);
+
+  const deletedNotes = db.getNoteIds().filter((id) => !remoteNoteIds.has(id));
+  const deletedRecordings: string[] = [];
+  const movedRecordings: { id: string; note_id: string | null }[] = [];
+  for (const local of db.getRecordingNoteIds()) {
+    if (!remoteRecordingNotes.has(local.id)) {
+      deletedRecordings.push(local.id);
+    } else if ((remoteRecordingNotes.get(local.id) ?? null) !== (local.note_id ?? null)) {
+      movedRecordings.push({ id: local.id, note_id: remoteRecordingNotes.get(local.id) ?? null });
+    }
+  }
+
+  const deletedAt = new Date().toISOString();
+  db.transaction(() => {
+    db.markNotesDeleted(deletedNotes, deletedAt);
+    db.markRecordingsDeleted(deletedRecordings, deletedAt);
+    for (const moved of movedRecordings) {
+      db.setRecordingNote(moved.id, moved.note_id);
+    }
+  });
+
+  result.reconciled = true;
+  result.notes_deleted = deletedNotes.length;
+  result.recordings_deleted = deletedRecordings.length;
+  result.recordings_moved = movedRecordings.length;
+}
+
+async function runSync(client: FellowClient, db: FellowDatabase, options: SyncOptions): Promise<SyncResult> {
+  const result = emptySyncResult();
+  const { checkpoint, resumed } = resumeOrStartCheckpoint(db, options);
+  result.resumed = resumed;
+  result.mode = checkpoint.mode;
+  const since = checkpoint.since ?? undefined;
+  const scope = options.scope ?? null;
+  const scopeFilters = checkpoint.list_filters;
+  result.scope_changed = scopeChanged(db, scope);
+  const cutoffs = retentionCutoffs(options.retention);
+  const progress: SyncProgress = { phase: checkpoint.phase, pages: 0, notes_processed: 0, recordings_processed: 0 };
+
+  if (scope) {
+    pruneOutOfScope(db, scope, scopeFilters, result);
+  }
+
+  // Notes written this run, or whose recordings were, for identity seeding
+  const touchedNotes = new Set<string>();
+  // Notes the scope or retention excluded, that were purged, or that were looked up for a recording during this run, by note ID
+  const parentNotes = new Map<string, "stored" | "missing" | "out_of_scope" | "purged" | "expired">();
+
+  // Fetch notes with content and attendees
+  if (checkpoint.phase === "notes") {
+    let cursor = checkpoint.notes_cursor;
+    let fromCheckpoint = resumed;
+    do {
+      throwIfCancelled(options.signal);
+      const notesResp = await fetchPage(
+        (pageCursor) =>
+          client.listNotes({
+            ...scopeFilters,
+            updated_at_start: since,
+            include_content: true,
+            include_attendees: true,
+            cursor: pageCursor ?? undefined,
+            page_size: PAGE_SIZE,
+            signal: options.signal,
+          }),
+        cursor,
+        fromCheckpoint
+      );
+      fromCheckpoint = false;
+
+      const writes: NoteWrite[] = [];
+      for (const note of notesResp.notes.data) {
+        if (db.isPurged(note.id)) {
+          result.notes_skipped_purged++;
+          parentNotes.set(note.id, "purged");
+          continue;
+        }
+        if (isExpired(note.event_start ?? note.created_at, cutoffs.notes)) {
+          result.notes_skipped_expired++;
+          parentNotes.set(note.id, "expired");
+          continue;
+        }
+        if (!noteInScope({ title: note.title, attendees: note.event_attendees ?? [] }, scope)) {
+          result.notes_out_of_scope++;
+          parentNotes.set(note.id, "out_of_scope");
+          continue;
+        }
+        const write = toNoteWrite(note, options.timeZone);
+        writes.push(write);
+        countNoteWrite(result, write);
+        touchedNotes.add(note.id);
+      }
+
+      // Commit the page and its checkpoint together
+      cursor = notesResp.notes.page_info.cursor;
+      checkpoint.notes_cursor = cursor;
+      db.transaction(() => {
+        db.upsertNotesWithDetails(writes);
+        db.setSyncCheckpoint(checkpoint);
+      });
+      progress.notes_processed += notesResp.notes.data.length;
+      reportPage(progress, options);
+    } while (cursor);
+
+    checkpoint.phase = "recordings";
+    checkpoint.recordings_cursor = null;
+    db.setSyncCheckpoint(checkpoint);
+    progress.phase = "recordings";
+  }
+
+  // Fetch recordings (optionally with transcripts)
+  let cursor = checkpoint.recordings_cursor;
+  let fromCheckpoint = resumed && cursor !== null;
+  do {
+    throwIfCancelled(options.signal);
+    const recordingsResp = await fetchPage(
+      (pageCursor) =>
+        client.listRecordings({
+          ...scopeFilters,
+          updated_at_start: since,
+          include_transcript: checkpoint.include_transcripts,
+          cursor: pageCursor ?? undefined,
+          page_size: PAGE_SIZE,
+          signal: options.signal,
+        }),
+      cursor,
+      fromCheckpoint
+    );
+    fromCheckpoint = false;
+
+    const recordings: RecordingInput[] = [];
+    const recoveredNotes: NoteWrite[] = [];
+    for (const recording of recordingsResp.recordings.data) {
+      if (db.isPurged(recording.id)) {
+        result.recordings_skipped_purged++;
+        continue;
+      }
+      const recordingDate = recording.recording_start ?? recording.event_start ?? recording.created_at;
+      if (!recording.note_id && isExpired(recordingDate, cutoffs.notes)) {
+        result.recordings_skipped_expired++;
+        continue;
+      }
+
+      // Recordings carry no attendees, so a participant scope needs the parent note
+      if (!titleInScope(recording.title, scope) || (!recording.note_id && scope?.participants)) {
+        result.recordings_out_of_scope++;
+        continue;
+      }
+
+      // An incremental sync only lists notes updated since the last run, so a new
+      // recording can point at an older note we never stored; fetch it directly
+      if (recording.note_id && !parentNotes.has(recording.note_id) && db.isPurged(recording.note_id)) {
+        parentNotes.set(recording.note_id, "purged");
+      }
+      if (recording.note_id && !parentNotes.has(recording.note_id) && !hasLiveNote(db, recording.note_id)) {
+        throwIfCancelled(options.signal);
+        try {
+          const note = await client.getNote(recording.note_id, options.signal);
+          if (isExpired(note.event_start ?? note.created_at, cutoffs.notes)) {
+            result.notes_skipped_expired++;
+            parentNotes.set(recording.note_id, "expired");
+          } else if (noteInScope({ title: note.title, attendees: note.event_attendees ?? [] }, scope)) {
+            const write = toNoteWrite(note, options.timeZone);
+            recoveredNotes.push(write);
+            countNoteWrite(result, write);
+            touchedNotes.add(note.id);
+            parentNotes.set(recording.note_id, "stored");
+          } else {
+            result.notes_out_of_scope++;
+            parentNotes.set(recording.note_id, "out_of_scope");
+          }
+        } catch (error) {
+          if (!(error instanceof FellowApiError && error.isNotFound)) {
+            throw error;
+          }
+          parentNotes.set(recording.note_id, "missing");
+        }
+      }
+      const parent = recording.note_id ? parentNotes.get(recording.note_id) : undefined;
+      if (parent === "missing") {
+        result.recordings_orphaned++;
+        continue;
+      }
+      if (parent === "out_of_scope") {
+        result.recordings_out_of_scope++;
+        continue;
+      }
+      if (parent === "purged") {
+        result.recordings_skipped_purged++;
+        continue;
+      }
+      if (parent === "expired") {
+        result.recordings_skipped_expired++;
+        continue;
+      }
+      if (parent === "stored") {
+        result.recordings_recovered++;
+      }
+      recordings.push({
+        id: recording.id,
+        note_id: recording.note_id,
+        title: recording.title,
+        created_at: recording.created_at,
+        updated_at: recording.updated_at,
+        event_start: recording.event_start ?? null,
+        event_end: recording.event_end ?? null,
+        recording_start: recording.recording_start ?? null,
+        recording_end: recording.recording_end ?? null,
+        event_guid: recording.event_guid ?? null,
+        call_url: recording.call_url ?? null,
+        transcript_json:
+          recording.transcript && !isExpired(recordingDate, cutoffs.transcripts) ? JSON.stringify(recording.transcript) : null,
+      });
+      result.recordings_synced++;
+      if (recording.note_id) touchedNotes.add(recording.note_id);
+    }
+
+    // Commit the page and its checkpoint together
+    cursor = recordingsResp.recordings.page_info.cursor;
+    checkpoint.recordings_cursor = cursor;
+    db.transaction(() => {
+      db.upsertNotesWithDetails(recoveredNotes);
+      db.upsertRecordings(recordings);
+      db.setSyncCheckpoint(checkpoint);
+    });
+    progress.recordings_processed += recordingsResp.recordings.data.length;
+    reportPage(progress, options);
+  } while (cursor);
+
+  // Use the run's start time so changes made in Fellow while we were paging are picked up next time.
+  // A new channel is only settled once the channel pass below has run.
+  const channelPass = result.scope_changed && scopeFilters.channel_id !== undefined;
+  db.transaction(() => {
+    db.setLastSyncTime(checkpoint.started_at);
+    db.setSyncCoverage({ scope, list_filters: scopeFilters });
+    db.clearSyncCheckpoint();
+    if (!channelPass) db.setSyncedScopeKey(checkpoint.scope_key);
+  });
+
+  if (channelPass) {
+    await pruneOutsideChannel(client, db, scopeFilters.channel_id!, result, progress, options);
+    db.setSyncedScopeKey(checkpoint.scope_key);
+  }
+
+  if (options.reconcile) {
+    await reconcileDeletions(client, db, result, progress, options);
+  }
+
+  if (options.retention) {
+    const expired = applyRetention(db, options.retention);
+    result.notes_expired = expired.notes_expired;
+    result.recordings_expired = expired.recordings_expired;
+    result.transcripts_expired = expired.transcripts_expired;
+  }
+
+  // Link the participants, mentions and speakers this run brought in; full rebuilds are left to
+  // update_identity's reseed and schema upgrades
+  seedIdentities(db, [...touchedNotes]);
+
+  return result;
+}
+
+export async function syncNotesFromApi(
+  client: FellowClient,
+  db: FellowDatabase,
+  options: SyncOptions = {}
+): Promise<SyncResult> {
+  try {
+    return await runSync(client, db, options);
+  } catch (error) {
+    // A request cut short by the signal stops the sync just like a check between pages
+    if (error instanceof FellowRequestCancelledError) {
+      throw new SyncCancelledError();
+    }
+    throw error;
+  }
+}
+
+export async function performIncrementalSync(
+  client: FellowClient,
+  db: FellowDatabase,
+  options: Omit<SyncOptions, "since"> = {}
+): Promise<SyncResult | null> {
+  const lastSync = db.getLastSyncTime();
+  if (!lastSync || scopeChanged(db, options.scope ?? null)) {
+    // No previous sync, or a scope that may now include older meetings: do a full sync
+    return syncNotesFromApi(client, db, options);
+  }
+
+  // Sync only notes updated since last sync
+  return syncNotesFromApi(client, db, { ...options, since: lastSync });
+}
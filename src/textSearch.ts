@@ -0,0 +1,172 @@
+// In-memory matching of search queries against decrypted text, for encrypted databases that keep no search index
+
+type QueryNode =
+  | { type: "phrase"; words: string[]; prefix: boolean }
+  | { type: "and" | "or"; left: QueryNode; right: QueryNode }
+  | { type: "not"; left: QueryNode; right: QueryNode };
+
+type QueryToken = { type: "phrase"; words: string[]; prefix: boolean } | { type: "AND" | "OR" | "NOT" | "(" | ")" };
+
+// A match in one of the searched fields, as character offsets
+export interface TextHit {
+  field: number;
+  start: number;
+  end: number;
+}
+
+interface Word {
+  key: string;
+  lower: string;
+  start: number;
+  end: number;
+}
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+// Folds plurals together ("notes" and "note"), a small stand-in for the index's porter stemmer
+function wordKey(word: string): string {
+  if (word.length <= 3) return word;
+  if (word.endsWith("ies")) return word.slice(0, -3) + "y";
+  if (word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
+
+function splitWords(text: string): Word[] {
+  return [...text.matchAll(WORD)].map((match) => {
+    const lower = match[0].toLowerCase();
+    return { key: wordKey(lower), lower, start: match.index!, end: match.index! + match[0].length };
+  });
+}
+
+function tokenize(query: string): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  for (const match of query.matchAll(/"((?:[^"]|"")*)"(\*)?|\(|\)|[^\s()"]+/g)) {
+    const raw = match[0];
+    if (raw === "(" || raw === ")" || raw === "AND" || raw === "OR" || raw === "NOT") {
+      tokens.push({ type: raw });
+      continue;
+    }
+    const quoted = match[1] !== undefined;
+    const text = quoted ? match[1].replace(/""/g, '"') : raw;
+    const words = [...text.matchAll(WORD)].map((word) => word[0].toLowerCase());
+    if (words.length > 0) {
+      tokens.push({ type: "phrase", words, prefix: quoted ? match[2] === "*" : raw.endsWith("*") });
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Parses the subset of FTS5 syntax the search tools document: "phrases",
+ * prefix* terms, AND/OR/NOT and parentheses, with FTS5's precedence (NOT
+ * binds tightest, then AND, then OR). Invalid syntax falls back to matching
+ * every term, like the indexed search does. Returns null for an empty query.
+ */
+export function parseSearchQuery(query: string): QueryNode | null {
+  const tokens = tokenize(query);
+  let pos = 0;
+
+  const primary = (): QueryNode => {
+    const token = tokens[pos++];
+    if (token?.type === "phrase") return token;
+    if (token?.type === "(") {
+      const node = or();
+      if (tokens[pos++]?.type !== ")") throw new SyntaxError("Unclosed parenthesis");
+      return node;
+    }
+    throw new SyntaxError("Expected a term");
+  };
+  const not = (): QueryNode => {
+    let node = primary();
+    while (tokens[pos]?.type === "NOT") {
+      pos++;
+      node = { type: "not", left: node, right: primary() };
+    }
+    return node;
+  };
+  const and = (): QueryNode => {
+    let node = not();
+    while (pos < tokens.length && tokens[pos].type !== "OR" && tokens[pos].type !== ")") {
+      if (tokens[pos].type === "AND") pos++;
+      node = { type: "and", left: node, right: not() };
+    }
+    return node;
+  };
+  const or = (): QueryNode => {
+    let node = and();
+    while (tokens[pos]?.type === "OR") {
+      pos++;
+      node = { type: "or", left: node, right: and() };
+    }
+    return node;
+  };
+
+  try {
+    if (tokens.length === 0) return null;
+    const node = or();
+    if (pos < tokens.length) throw new SyntaxError("Unexpected token");
+    return node;
+  } catch {
+    const phrases = tokens.filter((token): token is QueryNode & { type: "phrase" } => token.type === "phrase");
+    if (phrases.length === 0) return null;
+    return phrases.slice(1).reduce<QueryNode>((left, right) => ({ type: "and", left, right }), phrases[0]);
+  }
+}
+
+function phraseHits(phrase: { words: string[]; prefix: boolean }, fields: Word[][]): TextHit[] {
+  const keys = phrase.words.map(wordKey);
+  const last = keys.length - 1;
+  const hits: TextHit[] = [];
+  fields.forEach((words, field) => {
+    for (let i = 0; i + last < words.length; i++) {
+      const matches = keys.every((key, j) =>
+        j === last && phrase.prefix ? words[i + j].lower.startsWith(phrase.words[j]) : words[i + j].key === key
+      );
+      if (matches) hits.push({ field, start: words[i].start, end: words[i + last].end });
+    }
+  });
+  return hits;
+}
+
+function evaluate(node: QueryNode, fields: Word[][]): TextHit[] | null {
+  if (node.type === "phrase") {
+    const hits = phraseHits(node, fields);
+    return hits.length > 0 ? hits : null;
+  }
+  const left = evaluate(node.left, fields);
+  if (node.type === "not") {
+    return left && !evaluate(node.right, fields) ? left : null;
+  }
+  const right = evaluate(node.right, fields);
+  if (node.type === "and") {
+    return left && right ? [...left, ...right] : null;
+  }
+  return left || right ? [...(left ?? []), ...(right ?? [])] : null;
+}
+
+/**
+ * Matches a parsed query against a row's text fields. Like an FTS5 row
+ * match, terms may be satisfied by different fields. Returns every hit, or
+ * null when the row doesn't match.
+ */
+export function matchText(query: QueryNode, fields: string[]): TextHit[] | null {
+  return evaluate(query, fields.map(splitWords));
+}
+
+// Wraps hits in `open`/`close` markers, merging overlapping hits
+export function highlightHits(text: string, hits: TextHit[], open: string, close: string): string {
+  const sorted = [...hits].sort((a, b) => a.start - b.start);
+  let output = "";
+  let pos = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    const start = Math.max(sorted[i].start, pos);
+    let end = sorted[i].end;
+    while (i + 1 < sorted.length && sorted[i + 1].start <= end) {
+      end = Math.max(end, sorted[++i].end);
+    }
+    if (end <= start) continue;
+    output += text.slice(pos, start) + open + text.slice(start, end) + close;
+    pos = end;
+  }
+  return output + text.slice(pos);
+}
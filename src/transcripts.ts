@@ -0,0 +1,239 @@
+import { Recording, SpeechSegment, Transcript } from "./client.js";
+
+// Default number of segments per get_meeting_transcript page
+export const DEFAULT_TRANSCRIPT_PAGE_SIZE = 200;
+
+export interface TranscriptWindow {
+  start_time?: number;
+  end_time?: number;
+  speaker?: string;
+  merge_speakers?: boolean;
+  offset?: number;
+  limit?: number;
+}
+
+export interface TranscriptPage {
+  segments: SpeechSegment[];
+  offset: number;
+  total: number;
+  next_offset: number | null;
+}
+
+// Format transcript for output
+export function formatTranscript(transcript: Transcript, segments?: SpeechSegment[]): string {
+  const lines = segments ?? transcript.speech_segments;
+  if (!lines || lines.length === 0) {
+    return "No transcript available.";
+  }
+
+  let output = `Language: ${transcript.language_code}\n\n`;
+
+  for (const segment of lines) {
+    const startTime = formatTime(segment.start_time);
+    const endTime = formatTime(segment.end_time);
+    output += `[${startTime} - ${endTime}] ${segment.speaker}: ${segment.text}\n`;
+  }
+
+  return output;
+}
+
+export function formatTime(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+}
+
+/**
+ * Parses a transcript offset given as seconds (90, "90") or as a clock
+ * timestamp ("1:30", "01:02:03").
+ */
+export function parseTimestamp(value: string | number): number {
+  if (typeof value === "number") {
+    return value;
+  }
+  const parts = value.trim().split(":");
+  if (parts.length > 3 || parts.some((p) => !/^\d+(\.\d+)?$/.test(p))) {
+    throw new Error(`Invalid timestamp "${value}": use seconds, mm:ss, or hh:mm:ss`);
+  }
+  return parts.reduce((total, part) => total * 60 + Number(part), 0);
+}
+
+/**
+ * Collapses consecutive segments by the same speaker into one segment
+ * spanning from the first start to the last end.
+ */
+export function mergeSpeakerTurns(segments: SpeechSegment[]): SpeechSegment[] {
+  const merged: SpeechSegment[] = [];
+  for (const segment of segments) {
+    const last = merged[merged.length - 1];
+    if (last && last.speaker === segment.speaker) {
+      last.text = `${last.text} ${segment.text}`;
+      last.end_time = Math.max(last.end_time, segment.end_time);
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Applies merging, the time window and the speaker filter, then slices one
+ * page of segments. Merging happens first so turns reflect the original
+ * conversation rather than the filtered view.
+ */
+export function pageTranscript(segments: SpeechSegment[], window: TranscriptWindow): TranscriptPage {
+  let selected = window.merge_speakers ? mergeSpeakerTurns(segments) : segments;
+
+  if (window.start_time !== undefined) {
+    const start = window.start_time;
+    selected = selected.filter((s) => s.end_time >= start);
+  }
+  if (window.end_time !== undefined) {
+    const end = window.end_time;
+    selected = selected.filter((s) => s.start_time <= end);
+  }
+  if (window.speaker) {
+    const speaker = window.speaker.toLowerCase();
+    selected = selected.filter((s) => s.speaker.toLowerCase().includes(speaker));
+  }
+
+  const offset = Math.max(0, window.offset ?? 0);
+  const limit = Math.max(1, window.limit ?? DEFAULT_TRANSCRIPT_PAGE_SIZE);
+  const end = offset + limit;
+
+  return {
+    segments: selected.slice(offset, end),
+    offset,
+    total: selected.length,
+    next_offset: end < selected.length ? end : null,
+  };
+}
+
+// Continuation tokens carry the full request so the caller only has to pass `cursor`
+interface TranscriptCursor extends TranscriptWindow {
+  recording_id: string;
+}
+
+export function encodeTranscriptCursor(cursor: TranscriptCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+export function decodeTranscriptCursor(token: string): TranscriptCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(token, "base64url").toString("utf8")) as TranscriptCursor;
+    if (typeof cursor.recording_id !== "string") {
+      throw new Error("missing recording_id");
+    }
+    return cursor;
+  } catch {
+    throw new Error("Invalid transcript cursor. Pass the cursor value from a previous get_meeting_transcript response unchanged.");
+  }
+}
+
+export type TranscriptExportFormat = "vtt" | "srt" | "json" | "markdown" | "txt";
+
+export const TRANSCRIPT_EXPORT_FORMATS: TranscriptExportFormat[] = ["vtt", "srt", "json", "markdown", "txt"];
+
+// Conventional file extension for each export format
+export const TRANSCRIPT_EXPORT_EXTENSIONS: Record<TranscriptExportFormat, string> = {
+  vtt: "vtt",
+  srt: "srt",
+  json: "json",
+  markdown: "md",
+  txt: "txt",
+};
+
+/**
+ * Formats seconds as HH:MM:SS.mmm. SRT uses a comma before the milliseconds,
+ * WebVTT a period.
+ */
+export function formatTimestamp(seconds: number, msSeparator: "." | "," = "."): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3_600_000);
+  const mins = Math.floor((totalMs % 3_600_000) / 60_000);
+  const secs = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+  return (
+    `${hours.toString().padStart(2, "0")}:${mins.toString().padStart(2, "0")}:` +
+    `${secs.toString().padStart(2, "0")}${msSeparator}${ms.toString().padStart(3, "0")}`
+  );
+}
+
+// Cue text stays on one line: a blank line would end the cue early and "-->" reads as a timing line
+function flattenCueText(text: string): string {
+  return text.replace(/\s*[\r\n]+\s*/g, " ").replace(/-->/g, "->").trim();
+}
+
+function escapeCueText(text: string): string {
+  return flattenCueText(text).replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Renders a recording's transcript in a standard format. WebVTT cues carry
+ * the speaker as a `<v>` voice tag; SRT has no voice tags, so the speaker is
+ * prefixed to the cue text.
+ */
+export function exportTranscript(recording: Recording, format: TranscriptExportFormat): string {
+  const segments = recording.transcript?.speech_segments ?? [];
+
+  switch (format) {
+    case "vtt": {
+      let output = "WEBVTT\n\n";
+      segments.forEach((segment, i) => {
+        output += `${i + 1}\n`;
+        output += `${formatTimestamp(segment.start_time)} --> ${formatTimestamp(segment.end_time)}\n`;
+        output += `<v ${escapeCueText(segment.speaker)}>${escapeCueText(segment.text)}</v>\n\n`;
+      });
+      return output;
+    }
+
+    case "srt": {
+      let output = "";
+      segments.forEach((segment, i) => {
+        output += `${i + 1}\n`;
+        output += `${formatTimestamp(segment.start_time, ",")} --> ${formatTimestamp(segment.end_time, ",")}\n`;
+        output += `${flattenCueText(segment.speaker)}: ${flattenCueText(segment.text)}\n\n`;
+      });
+      return output;
+    }
+
+    case "json":
+      return JSON.stringify(
+        {
+          recording_id: recording.id,
+          note_id: recording.note_id,
+          title: recording.title,
+          event_start: recording.event_start ?? null,
+          language_code: recording.transcript?.language_code ?? null,
+          segments: segments.map((segment) => ({
+            speaker: segment.speaker,
+            start: formatTimestamp(segment.start_time),
+            end: formatTimestamp(segment.end_time),
+            start_time: segment.start_time,
+            end_time: segment.end_time,
+            text: segment.text,
+          })),
+        },
+        null,
+        2
+      );
+
+    case "markdown": {
+      let output = `# ${recording.title}\n\n`;
+      output += `- Recording ID: ${recording.id}\n`;
+      output += `- Event Start: ${recording.event_start ?? "N/A"}\n\n`;
+      for (const segment of segments) {
+        output += `**[${formatTimestamp(segment.start_time)}] ${segment.speaker}:** ${segment.text}\n\n`;
+      }
+      return output;
+    }
+
+    case "txt": {
+      let output = "";
+      for (const segment of segments) {
+        output += `[${formatTimestamp(segment.start_time)}] ${segment.speaker}: ${segment.text}\n`;
+      }
+      return output;
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { describe, it } from "node:test";
+import { fileURLToPath } from "node:url";
+import { extractActionItems, ParsedActionItem } from "../src/actionItems.js";
+
+// Each fixture is a note's markdown (<name>.md) with the action items expected from it (<name>.json)
+const FIXTURES = path.join(path.dirname(fileURLToPath(import.meta.url)), "fixtures", "action-items");
+// Wednesday, so "by Friday" resolves to 2024-05-03
+const REFERENCE = { date: "2024-05-01T15:00:00Z", timeZone: "UTC" };
+
+describe("extractActionItems fixtures", () => {
+  for (const file of fs.readdirSync(FIXTURES).filter((name) => name.endsWith(".md"))) {
+    it(file.replace(/\.md$/, ""), () => {
+      const markdown = fs.readFileSync(path.join(FIXTURES, file), "utf8");
+      const expected = JSON.parse(fs.readFileSync(path.join(FIXTURES, file.replace(/\.md$/, ".json")), "utf8")) as ParsedActionItem[];
+      assert.deepEqual(extractActionItems(markdown, REFERENCE), expected);
+    });
+  }
+});
+
+describe("extractActionItems", () => {
+  it("starts a new item at a TODO line directly below a list item", () => {
+    const items = extractActionItems("- Customer asked about SSO\nTODO: Follow up about SSO", REFERENCE);
+    assert.deepEqual(
+      items.map((item) => [item.content, item.line]),
+      [["Follow up about SSO", 2]]
+    );
+  });
+
+  it("still folds plain lazy continuation lines into the item above", () => {
+    const items = extractActionItems("## Action items\n- Follow up with legal about the\ncontract renewal", REFERENCE);
+    assert.deepEqual(
+      items.map((item) => item.content),
+      ["Follow up with legal about the contract renewal"]
+    );
+  });
+
+  it("treats plain sub-bullets of a task as its details", () => {
+    const items = extractActionItems("## Action items\n- Migrate billing @sam\n  - invoice worker\n  - retry queue", REFERENCE);
+    assert.deepEqual(
+      items.map((item) => item.content),
+      ["Migrate billing @sam"]
+    );
+  });
+
+  it("ignores checkboxes inside fenced code", () => {
+    assert.deepEqual(extractActionItems("```\n- [ ] not a task\n```", REFERENCE), []);
+  });
+});
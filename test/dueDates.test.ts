@@ -0,0 +1,137 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseDueDate, shiftDate } from "../src/dueDates.js";
+
+// Wednesday 2024-05-01, mid-afternoon in UTC
+const WEDNESDAY = { date: "2024-05-01T15:00:00Z", timeZone: "UTC" };
+
+function due(text: string, reference = WEDNESDAY): string | null {
+  return parseDueDate(text, reference)?.date ?? null;
+}
+
+describe("parseDueDate relative phrases", () => {
+  const cases: [string, string][] = [
+    ["Send the recap by today", "2024-05-01"],
+    ["Send the recap EOD", "2024-05-01"],
+    ["Send the recap due tomorrow", "2024-05-02"],
+    ["Draft the plan by Friday", "2024-05-03"],
+    ["Draft the plan by Wednesday", "2024-05-08"],
+    ["Draft the plan by this Wednesday", "2024-05-01"],
+    ["Draft the plan by next Tuesday", "2024-05-07"],
+    ["Draft the plan EOW", "2024-05-03"],
+    ["Draft the plan by end of next week", "2024-05-10"],
+    ["Draft the plan by next week", "2024-05-10"],
+    ["Close the books EOM", "2024-05-31"],
+    ["Close the books by next month", "2024-06-30"],
+    ["Close the books EOQ", "2024-06-30"],
+    ["Close the books EOY", "2024-12-31"],
+    ["Ship it due in 3 days", "2024-05-04"],
+    ["Ship it within two weeks", "2024-05-15"],
+    ["Ship it due in a month", "2024-06-01"],
+  ];
+  for (const [text, expected] of cases) {
+    it(text, () => assert.equal(due(text), expected));
+  }
+
+  it("keeps the phrase as written", () => {
+    assert.deepEqual(parseDueDate("Draft the plan by next Tuesday", WEDNESDAY), {
+      date: "2024-05-07",
+      phrase: "by next Tuesday",
+    });
+  });
+});
+
+describe("parseDueDate without a keyword", () => {
+  it("ignores relative phrases in plain prose", () => {
+    assert.equal(due("Review what we decided today"), null);
+    assert.equal(due("Plan next week's offsite"), null);
+    assert.equal(due("Ask about tomorrow's demo"), null);
+    assert.equal(due("Share what happened in 2 weeks of testing"), null);
+    assert.equal(due("Book the room for next Tuesday's retro"), null);
+    assert.equal(due("Discuss the end of month numbers"), null);
+  });
+
+  it("ignores explicit dates and quarters in the middle of the text", () => {
+    assert.equal(due("Discuss Q3 roadmap"), null);
+    assert.equal(due("Follow up on the Jan 15 incident"), null);
+  });
+
+  it("accepts upcoming explicit dates and quarters set off at the end of the item", () => {
+    assert.deepEqual(parseDueDate("Ship pricing page - Jun 15", WEDNESDAY), { date: "2024-06-15", phrase: "Jun 15" });
+    assert.equal(due("Launch the beta (Q3)"), "2024-09-30");
+    assert.equal(due("Renew the contract - 2024-06-01."), "2024-06-01");
+    assert.equal(due("Renew the contract, 6/1"), "2024-06-01");
+    assert.equal(due("Publish the post: May 1"), "2024-05-01");
+  });
+
+  describe("never treats past or descriptive dates as deadlines", () => {
+    // Wednesday 2025-03-12
+    const reference = { date: "2025-03-12T15:00:00Z", timeZone: "UTC" };
+    const cases = [
+      "Follow up on the incident from 3/4",
+      "Review numbers from Jan 15",
+      "Plan Q3",
+      "Follow up on the incident (from 3/4)",
+      "Compare against numbers since: Jan 15",
+      "Send the recap - Jan 15",
+      "Renew the contract (Q4 2024)",
+      "Share the survey with 1/2 of the team",
+    ];
+    for (const text of cases) {
+      it(text, () => assert.equal(parseDueDate(text, reference), null));
+    }
+  });
+
+  it("does not read fractions as dates even after a keyword", () => {
+    assert.equal(due("Roll out by 1/2 of the team"), null);
+    assert.equal(due("Roll out by 1/2"), "2025-01-02");
+  });
+});
+
+describe("parseDueDate time zones", () => {
+  it("reads the reference as a calendar day in the given zone", () => {
+    // Late Wednesday evening in New York is already Thursday in UTC
+    const evening = "2024-05-02T03:30:00Z";
+    assert.equal(due("Send the recap by today", { date: evening, timeZone: "America/New_York" }), "2024-05-01");
+    assert.equal(due("Send the recap by today", { date: evening, timeZone: "UTC" }), "2024-05-02");
+    assert.equal(due("Send the recap due tomorrow", { date: evening, timeZone: "America/New_York" }), "2024-05-02");
+  });
+
+  it("resolves weekdays from the zone's day", () => {
+    // Just after midnight Saturday in Tokyo, still Friday in UTC
+    const reference = { date: "2024-05-03T15:30:00Z", timeZone: "Asia/Tokyo" };
+    assert.equal(due("Draft the plan by Friday", reference), "2024-05-10");
+    assert.equal(due("Draft the plan by Friday", { ...reference, timeZone: "UTC" }), "2024-05-10");
+    assert.equal(due("Draft the plan by this Friday", { ...reference, timeZone: "UTC" }), "2024-05-03");
+  });
+});
+
+describe("parseDueDate year rollover", () => {
+  const december = { date: "2024-12-30T12:00:00Z", timeZone: "UTC" };
+
+  it("moves month/day dates that already passed into next year", () => {
+    assert.equal(due("Renew the contract by Jan 15", december), "2025-01-15");
+    assert.equal(due("Renew the contract by 12/1", december), "2025-12-01");
+    assert.equal(due("Renew the contract by Dec 31", december), "2024-12-31");
+  });
+
+  it("keeps an explicit year even when it is in the past", () => {
+    assert.equal(due("Renew the contract by Jan 15, 2024", december), "2024-01-15");
+  });
+
+  it("moves quarters that already ended into next year", () => {
+    assert.equal(due("Launch the beta by Q3", december), "2025-09-30");
+    assert.equal(due("Launch the beta by Q4", december), "2024-12-31");
+  });
+
+  it("crosses into January for relative phrases", () => {
+    assert.equal(due("Send the recap EOW", december), "2025-01-03");
+    assert.equal(due("Send the recap by next month", december), "2025-01-31");
+    assert.equal(due("Send the recap due in 5 days", december), "2025-01-04");
+    assert.equal(shiftDate("2024-12-31", 1), "2025-01-01");
+  });
+
+  it("clamps month arithmetic to the end of shorter months", () => {
+    assert.equal(due("Send the recap due in a month", { date: "2024-01-31T12:00:00Z", timeZone: "UTC" }), "2024-02-29");
+  });
+});
@@ -0,0 +1,144 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, it } from "node:test";
+import { FellowDatabase, NoteWrite } from "../src/database.js";
+import { EncryptionKeyError, FieldCipher, isEncrypted } from "../src/encryption.js";
+
+const tempDirs: string[] = [];
+
+afterEach(() => {
+  for (const dir of tempDirs.splice(0)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+function tempPath(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "fellow-encryption-"));
+  tempDirs.push(dir);
+  return path.join(dir, "fellow.db");
+}
+
+function noteWrite(id: string, content: string, attendees: string[]): NoteWrite {
+  const date = "2024-05-01T10:00:00Z";
+  return {
+    note: {
+      id,
+      title: `Meeting ${id}`,
+      created_at: date,
+      updated_at: date,
+      event_start: date,
+      event_end: null,
+      event_guid: null,
+      call_url: null,
+      content_markdown: content,
+    },
+    action_items: null,
+    participants: attendees,
+  };
+}
+
+// Everything SQLite keeps on disk for the database, WAL included
+function fileContents(dbPath: string): string {
+  return [dbPath, `${dbPath}-wal`]
+    .filter((file) => fs.existsSync(file))
+    .map((file) => fs.readFileSync(file).toString("latin1"))
+    .join("");
+}
+
+describe("FieldCipher", () => {
+  it("round-trips values under a fresh IV each time", () => {
+    const cipher = FieldCipher.create("secret");
+    const first = cipher.encrypt("Quarterly numbers");
+    const second = cipher.encrypt("Quarterly numbers");
+    assert.ok(isEncrypted(first));
+    assert.notEqual(first, second);
+    assert.equal(cipher.decrypt(first), "Quarterly numbers");
+    assert.equal(cipher.decrypt("written before encryption"), "written before encryption");
+  });
+
+  it("rejects tampered values and the wrong secret", () => {
+    const cipher = FieldCipher.create("secret");
+    const value = cipher.encrypt("Quarterly numbers");
+    const raw = Buffer.from(value.slice("enc:v1:".length), "base64");
+    raw[raw.length - 1] ^= 1;
+    const tampered = `enc:v1:${raw.toString("base64")}`;
+    assert.throws(() => cipher.decrypt(tampered));
+    assert.throws(() => FieldCipher.open("wrong", cipher.record), EncryptionKeyError);
+    assert.equal(FieldCipher.open("secret", cipher.record).decrypt(value), "Quarterly numbers");
+  });
+
+  it("derives email lookup keys that ignore case but depend on the secret", () => {
+    const cipher = FieldCipher.create("secret");
+    assert.equal(cipher.emailKey(" Dana@Example.com "), cipher.emailKey("dana@example.com"));
+    assert.notEqual(cipher.emailKey("dana@example.com"), cipher.emailKey("sam@example.com"));
+    assert.notEqual(FieldCipher.create("secret").emailKey("dana@example.com"), cipher.emailKey("dana@example.com"));
+  });
+});
+
+describe("FellowDatabase encryption", () => {
+  it("keeps content and emails off disk while reads, searches and lookups still work", () => {
+    const dbPath = tempPath();
+    const db = new FellowDatabase(dbPath, { encryptionKey: "secret" });
+    db.upsertNotesWithDetails([noteWrite("n1", "Discussed the zeppelin budget", ["Dana@Example.com"])]);
+
+    assert.equal(db.getNote("n1")?.content_markdown, "Discussed the zeppelin budget");
+    assert.deepEqual(db.getParticipantsForNote("n1"), ["Dana@Example.com"]);
+    assert.deepEqual(
+      db.getMeetingsByParticipants(["dana@example.com"]).map((note) => note.id),
+      ["n1"]
+    );
+    assert.deepEqual(
+      db.searchNotes("zeppelin").map((hit) => hit.id),
+      ["n1"]
+    );
+    db.close();
+
+    const contents = fileContents(dbPath).toLowerCase();
+    assert.ok(!contents.includes("zeppelin"));
+    assert.ok(!contents.includes("dana@example.com"));
+  });
+
+  it("encrypts an existing cache in place and then requires the key", () => {
+    const dbPath = tempPath();
+    const plain = new FellowDatabase(dbPath);
+    plain.upsertNotesWithDetails([noteWrite("n1", "Discussed the zeppelin budget", ["dana@example.com"])]);
+    plain.close();
+
+    new FellowDatabase(dbPath, { encryptionKey: "secret" }).close();
+    assert.ok(!fileContents(dbPath).includes("zeppelin"));
+    assert.throws(() => new FellowDatabase(dbPath), EncryptionKeyError);
+    assert.throws(() => new FellowDatabase(dbPath, { encryptionKey: "wrong" }), EncryptionKeyError);
+
+    const db = new FellowDatabase(dbPath, { encryptionKey: "secret" });
+    assert.equal(db.getNote("n1")?.content_markdown, "Discussed the zeppelin budget");
+    db.close();
+  });
+
+  it("re-keys and decrypts again on rotation", () => {
+    const dbPath = tempPath();
+    const db = new FellowDatabase(dbPath, { encryptionKey: "old" });
+    db.upsertNotesWithDetails([noteWrite("n1", "Discussed the zeppelin budget", ["dana@example.com"])]);
+    db.rotateEncryptionKey("new");
+    db.close();
+
+    assert.throws(() => new FellowDatabase(dbPath, { encryptionKey: "old" }), EncryptionKeyError);
+    const rotated = new FellowDatabase(dbPath, { encryptionKey: "new" });
+    assert.deepEqual(
+      rotated.getMeetingsByParticipants(["dana@example.com"]).map((note) => note.id),
+      ["n1"]
+    );
+    rotated.rotateEncryptionKey(null);
+    rotated.close();
+
+    const plain = new FellowDatabase(dbPath);
+    assert.equal(plain.isEncryptionEnabled(), false);
+    assert.equal(plain.getNote("n1")?.content_markdown, "Discussed the zeppelin budget");
+    assert.deepEqual(
+      plain.searchNotes("zeppelin").map((hit) => hit.id),
+      ["n1"]
+    );
+    plain.close();
+  });
+});
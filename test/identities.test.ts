@@ -0,0 +1,193 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, it } from "node:test";
+import { FellowDatabase, NoteWrite } from "../src/database.js";
+import { buildIdentitySeeds, seedIdentities } from "../src/identities.js";
+
+const tempDirs: string[] = [];
+
+afterEach(() => {
+  for (const dir of tempDirs.splice(0)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+function tempPath(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "fellow-identities-"));
+  tempDirs.push(dir);
+  return path.join(dir, "fellow.db");
+}
+
+function noteWrite(id: string, attendees: string[]): NoteWrite {
+  const date = "2024-05-01T10:00:00Z";
+  return {
+    note: {
+      id,
+      title: `Meeting ${id}`,
+      created_at: date,
+      updated_at: date,
+      event_start: date,
+      event_end: null,
+      event_guid: null,
+      call_url: null,
+      content_markdown: null,
+    },
+    action_items: null,
+    participants: attendees,
+  };
+}
+
+// Everything SQLite keeps on disk for the database, WAL included
+function fileContents(dbPath: string): string {
+  return [dbPath, `${dbPath}-wal`]
+    .filter((file) => fs.existsSync(file))
+    .map((file) => fs.readFileSync(file).toString("latin1"))
+    .join("");
+}
+
+function sources(data: {
+  participants?: [string, string][];
+  mentions?: [string, string][];
+  speakers?: [string, string][];
+}) {
+  return {
+    participants: (data.participants ?? []).map(([note_id, email]) => ({ note_id, email })),
+    mentions: (data.mentions ?? []).map(([note_id, handle]) => ({ note_id, handle })),
+    speakers: (data.speakers ?? []).map(([note_id, speaker]) => ({ note_id, speaker })),
+  };
+}
+
+function aliasesOf(seeds: ReturnType<typeof buildIdentitySeeds>, email: string): string[] {
+  return seeds.find((seed) => seed.email === email)!.aliases.map((alias) => `${alias.kind}:${alias.alias}`);
+}
+
+describe("buildIdentitySeeds", () => {
+  it("links handles and speaker labels that fit the email", () => {
+    const seeds = buildIdentitySeeds(
+      sources({
+        participants: [["n1", "Dana.Smith@example.com"]],
+        mentions: [
+          ["n1", "dana"],
+          ["n1", "dsmith"],
+          ["n1", "DanaSmith"],
+          ["n1", "sam"],
+        ],
+        speakers: [
+          ["n1", "Dana S."],
+          ["n1", "Dana Jones"],
+        ],
+      })
+    );
+    assert.deepEqual(aliasesOf(seeds, "dana.smith@example.com"), [
+      "handle:dana",
+      "handle:dsmith",
+      "handle:danasmith",
+      "speaker:Dana S.",
+      "name:Dana S.",
+    ]);
+    assert.equal(seeds[0].display_name, "Dana S.");
+  });
+
+  it("picks the participant who shares the most meetings with the alias", () => {
+    const seeds = buildIdentitySeeds(
+      sources({
+        participants: [
+          ["n1", "dana.smith@example.com"],
+          ["n2", "dana.smith@example.com"],
+          ["n1", "dana.jones@example.com"],
+        ],
+        mentions: [
+          ["n1", "dana"],
+          ["n2", "dana"],
+        ],
+      })
+    );
+    assert.deepEqual(aliasesOf(seeds, "dana.smith@example.com"), ["handle:dana", "name:Dana Smith"]);
+    assert.deepEqual(aliasesOf(seeds, "dana.jones@example.com"), ["name:Dana Jones"]);
+  });
+
+  it("leaves ties and aliases from other meetings unlinked", () => {
+    const seeds = buildIdentitySeeds(
+      sources({
+        participants: [
+          ["n1", "dana.smith@example.com"],
+          ["n1", "dana.jones@example.com"],
+          ["n2", "sam@example.com"],
+        ],
+        mentions: [
+          ["n1", "dana"],
+          ["n3", "sam"],
+        ],
+      })
+    );
+    assert.deepEqual(aliasesOf(seeds, "dana.smith@example.com"), ["name:Dana Smith"]);
+    assert.deepEqual(aliasesOf(seeds, "dana.jones@example.com"), ["name:Dana Jones"]);
+    assert.deepEqual(aliasesOf(seeds, "sam@example.com"), ["name:Sam"]);
+  });
+
+  it("prefers a full speaker name over one guessed from the email", () => {
+    const named = (speaker: string) =>
+      buildIdentitySeeds(sources({ participants: [["n1", "dana.smith@example.com"]], speakers: [["n1", speaker]] }))[0]
+        .display_name;
+    assert.equal(named("Dana Smithson"), "Dana Smithson");
+    assert.equal(named("Dana"), "Dana Smith");
+  });
+});
+
+describe("seedIdentities", () => {
+  it("keeps manual unlinks across a full reseed", () => {
+    const db = new FellowDatabase(tempPath());
+    db.upsertNotesWithDetails([noteWrite("n1", ["dana.smith@example.com"])]);
+    seedIdentities(db);
+    const [person] = db.findPeople("dana.smith@example.com");
+    db.unlinkAlias("name", "Dana Smith");
+    db.linkAlias(person.id, "handle", "ds");
+
+    seedIdentities(db);
+    const aliases = db.findPeople("dana.smith@example.com")[0].aliases.map((alias) => `${alias.kind}:${alias.alias}:${alias.source}`);
+    assert.deepEqual(aliases, ["email:dana.smith@example.com:auto", "handle:ds:manual"]);
+    db.close();
+  });
+});
+
+describe("seedIdentities with encryption", () => {
+  it("doesn't name people after their email address", () => {
+    const dbPath = tempPath();
+    const db = new FellowDatabase(dbPath, { encryptionKey: "secret" });
+    db.upsertNotesWithDetails([noteWrite("n1", ["dana.whitfield@example.com"])]);
+    seedIdentities(db);
+
+    const [person] = db.findPeople("dana.whitfield@example.com");
+    assert.equal(person.display_name, null);
+    assert.deepEqual(
+      person.aliases.map((alias) => alias.kind),
+      ["email"]
+    );
+    db.close();
+    assert.ok(!fileContents(dbPath).toLowerCase().includes("whitfield"));
+  });
+
+  it("drops names guessed from emails when a plaintext cache gets encrypted", () => {
+    const dbPath = tempPath();
+    const plain = new FellowDatabase(dbPath);
+    plain.upsertNotesWithDetails([noteWrite("n1", ["dana.whitfield@example.com", "sam.lee@example.com"])]);
+    seedIdentities(plain);
+    const sam = plain.findPeople("sam.lee@example.com")[0];
+    assert.equal(sam.display_name, "Sam Lee");
+    plain.setPersonName(sam.id, "Samantha Lee");
+    plain.close();
+
+    const db = new FellowDatabase(dbPath, { encryptionKey: "secret" });
+    const dana = db.findPeople("dana.whitfield@example.com")[0];
+    assert.equal(dana.display_name, null);
+    assert.deepEqual(
+      dana.aliases.map((alias) => alias.kind),
+      ["email"]
+    );
+    assert.equal(db.findPeople("sam.lee@example.com")[0].display_name, "Samantha Lee");
+    db.close();
+    assert.ok(!fileContents(dbPath).toLowerCase().includes("whitfield"));
+  });
+});
@@ -0,0 +1,334 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, it } from "node:test";
+import Database from "better-sqlite3";
+import { getSchemaVersion, migrate, MigrationError, MIGRATIONS, SCHEMA_VERSION, SchemaVersionError } from "../src/migrations.js";
+
+const NOW = "2024-05-01T10:00:00.000Z";
+const tempDirs: string[] = [];
+
+afterEach(() => {
+  for (const dir of tempDirs.splice(0)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+function tempPath(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "fellow-migrations-"));
+  tempDirs.push(dir);
+  return path.join(dir, "fellow.db");
+}
+
+// A connection like FellowDatabase opens: the search index views need fellow_decrypt
+function open(dbPath = ":memory:"): Database.Database {
+  const db = new Database(dbPath);
+  db.function("fellow_decrypt", { deterministic: true }, (value: unknown) => value);
+  return db;
+}
+
+function upgrade(db: Database.Database, version: number, dbPath = ":memory:"): string | null {
+  return migrate(db, dbPath, MIGRATIONS.filter((migration) => migration.version <= version));
+}
+
+// A database created by the release that wrote schema `version`
+function databaseAt(version: number, dbPath?: string): Database.Database {
+  const db = open(dbPath);
+  if (version > 0) upgrade(db, version);
+  return db;
+}
+
+function columns(db: Database.Database, table: string): string[] {
+  return (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map((column) => column.name);
+}
+
+function tables(db: Database.Database): string[] {
+  return (db.prepare("SELECT name FROM sqlite_master WHERE type IN ('table', 'view') ORDER BY name").all() as { name: string }[]).map(
+    (row) => row.name
+  );
+}
+
+function insertNote(db: Database.Database, id: string, title: string, content: string | null): void {
+  db.prepare(`
+    INSERT INTO notes (id, title, created_at, updated_at, event_start, content_markdown, synced_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(id, title, NOW, NOW, NOW, content, NOW);
+}
+
+function insertRecording(db: Database.Database, id: string, noteId: string, transcript: unknown): void {
+  db.prepare(`
+    INSERT INTO recordings (id, note_id, title, created_at, updated_at, transcript_json, synced_at)
+    VALUES (?, ?, 'Recording', ?, ?, ?, ?)
+  `).run(id, noteId, NOW, NOW, JSON.stringify(transcript), NOW);
+}
+
+function insertActionItem(db: Database.Database, noteId: string, content: string, completed = false): void {
+  db.prepare("INSERT INTO action_items (note_id, content, assignee, is_completed, created_at) VALUES (?, ?, 'dana', ?, ?)").run(
+    noteId,
+    content,
+    completed ? 1 : 0,
+    NOW
+  );
+}
+
+describe("migrations", () => {
+  it("are numbered consecutively from 1", () => {
+    assert.deepEqual(
+      MIGRATIONS.map((migration) => migration.version),
+      MIGRATIONS.map((_, index) => index + 1)
+    );
+    assert.equal(SCHEMA_VERSION, MIGRATIONS.length);
+  });
+
+  it("v1 creates the initial tables in an empty database", () => {
+    const db = databaseAt(0);
+    upgrade(db, 1);
+    assert.equal(getSchemaVersion(db), 1);
+    for (const table of ["notes", "recordings", "action_items", "participants", "sync_status"]) {
+      assert.ok(tables(db).includes(table), table);
+    }
+  });
+
+  it("v1 adopts a database from before versioning without losing rows", () => {
+    const db = databaseAt(0);
+    db.exec(`
+      CREATE TABLE notes (
+        id TEXT PRIMARY KEY, title TEXT NOT NULL, created_at TEXT NOT NULL, updated_at TEXT NOT NULL,
+        event_start TEXT, event_end TEXT, event_guid TEXT, call_url TEXT, content_markdown TEXT, synced_at TEXT NOT NULL
+      );
+    `);
+    insertNote(db, "n1", "Legacy", "kept");
+    upgrade(db, 1);
+    assert.equal(getSchemaVersion(db), 1);
+    assert.deepEqual(db.prepare("SELECT id, content_markdown FROM notes").all(), [{ id: "n1", content_markdown: "kept" }]);
+  });
+
+  it("v2 indexes existing notes for full-text search", () => {
+    const db = databaseAt(1);
+    insertNote(db, "n1", "Budget review", "Quarterly numbers");
+    upgrade(db, 2);
+    const hits = db.prepare("SELECT note_id FROM notes_fts WHERE notes_fts MATCH ?").all("quarterly") as { note_id: string }[];
+    assert.deepEqual(hits, [{ note_id: "n1" }]);
+  });
+
+  it("v3 splits stored transcripts into indexed segments", () => {
+    const db = databaseAt(2);
+    insertNote(db, "n1", "Sync", null);
+    insertRecording(db, "r1", "n1", {
+      speech_segments: [
+        { speaker: "Dana", text: "Shipping on Friday", start_time: 0, end_time: 2.5 },
+        { speaker: "Alex", text: "Sounds good", start_time: 2.5, end_time: 4 },
+      ],
+    });
+    upgrade(db, 3);
+    assert.deepEqual(db.prepare("SELECT segment_index, speaker, text, start_time FROM transcript_segments ORDER BY segment_index").all(), [
+      { segment_index: 0, speaker: "Dana", text: "Shipping on Friday", start_time: 0 },
+      { segment_index: 1, speaker: "Alex", text: "Sounds good", start_time: 2.5 },
+    ]);
+    const hits = db.prepare("SELECT speaker FROM transcript_fts WHERE transcript_fts MATCH ?").all("friday");
+    assert.deepEqual(hits, [{ speaker: "Dana" }]);
+  });
+
+  it("v4 adds deletion tombstones to notes and recordings", () => {
+    const db = databaseAt(3);
+    insertNote(db, "n1", "Sync", null);
+    upgrade(db, 4);
+    assert.ok(columns(db, "notes").includes("deleted_at"));
+    assert.ok(columns(db, "recordings").includes("deleted_at"));
+    assert.deepEqual(db.prepare("SELECT deleted_at FROM notes").get(), { deleted_at: null });
+  });
+
+  it("v5 keys participants by normalized email and rebuilds the search indexes from the source views", () => {
+    const db = databaseAt(4);
+    insertNote(db, "n1", "Planning", "Roadmap for the offsite");
+    db.prepare("INSERT INTO participants (note_id, email) VALUES (?, ?)").run("n1", "Dana@Example.com");
+    db.prepare("INSERT INTO participants (note_id, email) VALUES (?, ?)").run("n1", " dana@example.com");
+    db.prepare("INSERT INTO participants (note_id, email) VALUES (?, ?)").run("n1", "alex@example.com");
+    insertRecording(db, "r1", "n1", { speech_segments: [{ speaker: "Dana", text: "Offsite budget", start_time: 0, end_time: 1 }] });
+    db.prepare(`
+      INSERT INTO transcript_segments (recording_id, segment_index, speaker, start_time, end_time, text)
+      VALUES ('r1', 0, 'Dana', 0, 1, 'Offsite budget')
+    `).run();
+    upgrade(db, 5);
+
+    assert.deepEqual(db.prepare("SELECT email_key FROM participants ORDER BY email_key").all(), [
+      { email_key: "alex@example.com" },
+      { email_key: "dana@example.com" },
+    ]);
+    assert.throws(() => db.prepare("INSERT INTO participants (note_id, email, email_key) VALUES ('n1', 'x', 'alex@example.com')").run());
+
+    const notesFts = db.prepare("SELECT sql FROM sqlite_master WHERE name = 'notes_fts'").get() as { sql: string };
+    assert.match(notesFts.sql, /content\s*=\s*'notes_fts_source'/);
+    assert.deepEqual(db.prepare("SELECT note_id FROM notes_fts WHERE notes_fts MATCH ?").all("roadmap"), [{ note_id: "n1" }]);
+    assert.deepEqual(db.prepare("SELECT recording_id FROM transcript_fts WHERE transcript_fts MATCH ?").all("budget"), [
+      { recording_id: "r1" },
+    ]);
+    // External-content indexes hold no copy of the text
+    assert.ok(!tables(db).includes("notes_fts_content"));
+    assert.ok(!tables(db).includes("transcript_fts_content"));
+  });
+
+  it("v6 adds the purged items table", () => {
+    const db = databaseAt(5);
+    upgrade(db, 6);
+    assert.deepEqual(columns(db, "purged_items"), ["id", "kind", "purged_at"]);
+  });
+
+  it("v7 gives existing action items fingerprints, positions and history", () => {
+    const db = databaseAt(6);
+    insertNote(db, "n1", "Planning", null);
+    insertNote(db, "n2", "Retro", null);
+    insertActionItem(db, "n1", "Draft plan");
+    insertActionItem(db, "n1", "Book room", true);
+    insertActionItem(db, "n2", "Send notes");
+    upgrade(db, 7);
+
+    const items = db.prepare("SELECT note_id, content, fingerprint, position, completed_at, removed_at FROM action_items ORDER BY id").all() as {
+      note_id: string;
+      content: string;
+      fingerprint: string;
+      position: number;
+      completed_at: string | null;
+      removed_at: string | null;
+    }[];
+    assert.deepEqual(
+      items.map(({ note_id, position, completed_at, removed_at }) => ({ note_id, position, completed_at, removed_at })),
+      [
+        { note_id: "n1", position: 0, completed_at: null, removed_at: null },
+        { note_id: "n1", position: 1, completed_at: NOW, removed_at: null },
+        { note_id: "n2", position: 0, completed_at: null, removed_at: null },
+      ]
+    );
+    assert.equal(new Set(items.map((item) => item.fingerprint)).size, 3);
+    assert.ok(items.every((item) => /^[0-9a-f]{32}$/.test(item.fingerprint)));
+
+    const history = db.prepare("SELECT fingerprint, event FROM action_item_history ORDER BY id").all();
+    assert.deepEqual(history, [
+      ...items.map((item) => ({ fingerprint: item.fingerprint, event: "first_seen" })),
+      { fingerprint: items[1].fingerprint, event: "completed" },
+    ]);
+  });
+
+  it("v8 adds the source section and line of action items", () => {
+    const db = databaseAt(7);
+    insertNote(db, "n1", "Planning", null);
+    insertActionItem(db, "n1", "Draft plan");
+    upgrade(db, 8);
+    assert.deepEqual(db.prepare("SELECT content, section, source_line FROM action_items").all(), [
+      { content: "Draft plan", section: null, source_line: null },
+    ]);
+  });
+
+  it("v9 adds the due phrase of action items", () => {
+    const db = databaseAt(8);
+    insertNote(db, "n1", "Planning", null);
+    insertActionItem(db, "n1", "Draft plan");
+    upgrade(db, 9);
+    assert.deepEqual(db.prepare("SELECT content, due_phrase FROM action_items").all(), [{ content: "Draft plan", due_phrase: null }]);
+  });
+
+  it("v10 adds people and their aliases", () => {
+    const db = databaseAt(9);
+    upgrade(db, 10);
+    assert.deepEqual(columns(db, "people"), ["id", "display_name", "created_at"]);
+    db.prepare("INSERT INTO people (display_name, created_at) VALUES ('Dana', ?)").run(NOW);
+    const insertAlias = db.prepare("INSERT INTO person_aliases (person_id, kind, alias_key, alias, source) VALUES (1, 'handle', 'dana', 'dana', 'auto')");
+    insertAlias.run();
+    assert.throws(() => insertAlias.run(), /UNIQUE/);
+  });
+
+  it("v11 empties the search indexes of encrypted databases", () => {
+    const db = databaseAt(10);
+    insertNote(db, "n1", "Planning", "Roadmap for the offsite");
+    db.exec("INSERT INTO notes_fts (notes_fts) VALUES ('rebuild')");
+    db.prepare("INSERT INTO sync_status (key, value) VALUES ('encryption', '{}')").run();
+    upgrade(db, 11);
+    assert.deepEqual(db.prepare("SELECT note_id FROM notes_fts WHERE notes_fts MATCH ?").all("roadmap"), []);
+    db.exec("CREATE VIRTUAL TABLE temp.vocab USING fts5vocab(main, 'notes_fts', 'instance')");
+    assert.deepEqual(db.prepare("SELECT COUNT(*) as count FROM temp.vocab").get(), { count: 0 });
+  });
+
+  it("v11 leaves the search indexes of unencrypted databases alone", () => {
+    const db = databaseAt(10);
+    insertNote(db, "n1", "Planning", "Roadmap for the offsite");
+    db.exec("INSERT INTO notes_fts (notes_fts) VALUES ('rebuild')");
+    upgrade(db, 11);
+    assert.deepEqual(db.prepare("SELECT note_id FROM notes_fts WHERE notes_fts MATCH ?").all("roadmap"), [{ note_id: "n1" }]);
+  });
+});
+
+describe("migrate", () => {
+  it("brings a new database to the current version without a backup", () => {
+    const dbPath = tempPath();
+    const db = open(dbPath);
+    assert.equal(migrate(db, dbPath), null);
+    assert.equal(getSchemaVersion(db), SCHEMA_VERSION);
+    db.close();
+  });
+
+  it("does nothing at the current version", () => {
+    const db = databaseAt(SCHEMA_VERSION);
+    assert.equal(migrate(db, ":memory:"), null);
+  });
+
+  it("backs up an existing database before migrating it", () => {
+    const dbPath = tempPath();
+    const db = databaseAt(4, dbPath);
+    insertNote(db, "n1", "Planning", "Roadmap");
+    const backupPath = migrate(db, dbPath);
+    db.close();
+
+    assert.ok(backupPath && backupPath.startsWith(`${dbPath}.backup-v4-`));
+    const backup = open(backupPath);
+    assert.equal(getSchemaVersion(backup), 4);
+    assert.deepEqual(backup.prepare("SELECT id FROM notes").all(), [{ id: "n1" }]);
+    backup.close();
+  });
+
+  it("refuses a database written by a newer version", () => {
+    const db = databaseAt(SCHEMA_VERSION);
+    db.pragma(`user_version = ${SCHEMA_VERSION + 1}`);
+    assert.throws(() => migrate(db, ":memory:"), SchemaVersionError);
+  });
+
+  it("stops at the last good version when a step fails, leaving a backup to restore", () => {
+    const dbPath = tempPath();
+    const db = databaseAt(3, dbPath);
+    insertNote(db, "n1", "Planning", "Roadmap");
+    const failing = [
+      ...MIGRATIONS.filter((migration) => migration.version <= 4),
+      {
+        version: 5,
+        description: "Broken step",
+        up: (conn: Database.Database) => {
+          conn.exec("CREATE TABLE half_done (id INTEGER)");
+          throw new Error("boom");
+        },
+      },
+    ];
+
+    let error: unknown;
+    try {
+      migrate(db, dbPath, failing);
+    } catch (caught) {
+      error = caught;
+    }
+    assert.ok(error instanceof MigrationError);
+    assert.match(error.message, /version 5 failed: boom/);
+    assert.equal(error.version, 4);
+    // The failed step rolled back; earlier steps stay applied
+    assert.equal(getSchemaVersion(db), 4);
+    assert.ok(!tables(db).includes("half_done"));
+    db.close();
+
+    // Restoring the backup returns the database as it was before the upgrade
+    assert.ok(error.backupPath);
+    fs.copyFileSync(error.backupPath, dbPath);
+    const restored = open(dbPath);
+    assert.equal(getSchemaVersion(restored), 3);
+    assert.ok(!columns(restored, "notes").includes("deleted_at"));
+    assert.deepEqual(restored.prepare("SELECT id, content_markdown FROM notes").all(), [{ id: "n1", content_markdown: "Roadmap" }]);
+    restored.close();
+  });
+});
@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { setTimeout as delay } from "node:timers/promises";
+import { afterEach, describe, it } from "node:test";
+import { FellowClient, Note, Recording } from "../src/client.js";
+import { FellowDatabase, NoteWrite, SyncCoverage } from "../src/database.js";
+import { MeetingResolver } from "../src/resolver.js";
+
+const tempDirs: string[] = [];
+
+afterEach(() => {
+  for (const dir of tempDirs.splice(0)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+function tempDb(): FellowDatabase {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "fellow-resolver-"));
+  tempDirs.push(dir);
+  return new FellowDatabase(path.join(dir, "fellow.db"));
+}
+
+function noteWrite(id: string, title: string, createdAt: string, attendees: string[]): NoteWrite {
+  return {
+    note: {
+      id,
+      title,
+      created_at: createdAt,
+      updated_at: createdAt,
+      event_start: createdAt,
+      event_end: null,
+      event_guid: null,
+      call_url: null,
+      content_markdown: "Cached notes",
+    },
+    action_items: null,
+    participants: attendees,
+  };
+}
+
+// Answers every lookup from the "API" and records which IDs were asked for
+function fakeClient(): FellowClient & { fetched: string[] } {
+  const fetched: string[] = [];
+  const apiNote = (id: string): Note => ({
+    id,
+    title: "From the API",
+    created_at: "2024-05-01T10:00:00Z",
+    updated_at: "2024-05-01T10:00:00Z",
+  });
+  const client = {
+    fetched,
+    getNote: async (id: string) => {
+      fetched.push(id);
+      return apiNote(id);
+    },
+    listNotes: async (options: { title: string }) => {
+      fetched.push(options.title);
+      return { notes: { data: [apiNote("listed")], page_info: { cursor: null, page_size: 1 } } };
+    },
+    getRecording: async (id: string): Promise<Recording> => {
+      fetched.push(id);
+      return { id, title: "From the API", note_id: "", created_at: "2024-05-01T10:00:00Z", updated_at: "2024-05-01T10:00:00Z" };
+    },
+  };
+  return client as unknown as FellowClient & { fetched: string[] };
+}
+
+const MAX_AGE_MS = 200;
+
+/**
+ * A cache whose rows were written longer than MAX_AGE_MS ago, followed by a
+ * sync that just completed with `coverage`.
+ */
+async function staleRowsThenSync(coverage: SyncCoverage | null): Promise<FellowDatabase> {
+  const db = tempDb();
+  db.upsertNotesWithDetails([
+    noteWrite("review", "Design review", "2024-05-01T10:00:00Z", ["sam@example.com"]),
+    noteWrite("standup", "Daily standup", "2024-05-01T10:00:00Z", ["sam@example.com"]),
+    noteWrite("planning", "Planning", "2024-05-01T10:00:00Z", ["dana@example.com"]),
+    noteWrite("old", "Old review", "2023-01-01T10:00:00Z", ["sam@example.com"]),
+  ]);
+  db.upsertRecordings([
+    {
+      id: "rec",
+      note_id: "review",
+      title: "Design review",
+      created_at: "2024-05-01T10:00:00Z",
+      updated_at: "2024-05-01T10:00:00Z",
+      event_start: null,
+      event_end: null,
+      recording_start: null,
+      recording_end: null,
+      event_guid: null,
+      call_url: null,
+      transcript_json: null,
+    },
+  ]);
+  await delay(MAX_AGE_MS + 50);
+  db.setLastSyncTime(new Date().toISOString());
+  if (coverage) db.setSyncCoverage(coverage);
+  return db;
+}
+
+describe("MeetingResolver freshness", () => {
+  it("trusts rows a recent unscoped sync listed", async () => {
+    const db = await staleRowsThenSync({ scope: null, list_filters: {} });
+    const client = fakeClient();
+    const resolver = new MeetingResolver(client, db, MAX_AGE_MS);
+    assert.equal((await resolver.getNote("standup"))?.source, "cache");
+    assert.equal((await resolver.getNote("old"))?.source, "cache");
+    assert.equal((await resolver.getRecording("rec"))?.source, "cache");
+    assert.deepEqual(client.fetched, []);
+    db.close();
+  });
+
+  it("asks the API for rows outside the scope of the last sync", async () => {
+    const db = await staleRowsThenSync({
+      scope: { exclude_title_patterns: ["standup"], participants: ["sam@example.com"] },
+      list_filters: { created_at_start: "2024-01-01T00:00:00Z" },
+    });
+    const client = fakeClient();
+    const resolver = new MeetingResolver(client, db, MAX_AGE_MS);
+    assert.equal((await resolver.getNote("review"))?.source, "cache");
+    assert.equal((await resolver.getRecording("rec"))?.source, "cache");
+    // Excluded by title, by participants and by age respectively
+    assert.equal((await resolver.getNote("standup"))?.source, "api");
+    assert.equal((await resolver.findNoteByTitle("Daily standup"))?.source, "api");
+    assert.equal((await resolver.getNote("planning"))?.source, "api");
+    assert.equal((await resolver.getNote("old"))?.source, "api");
+    assert.deepEqual(client.fetched, ["standup", "Daily standup", "planning", "old"]);
+    db.close();
+  });
+
+  it("doesn't trust a sync whose coverage is unknown", async () => {
+    const db = await staleRowsThenSync(null);
+    const client = fakeClient();
+    const resolver = new MeetingResolver(client, db, MAX_AGE_MS);
+    assert.equal((await resolver.getNote("review"))?.source, "api");
+    db.close();
+  });
+});
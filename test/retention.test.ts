@@ -0,0 +1,227 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, it } from "node:test";
+import { FellowClient, Note, Recording } from "../src/client.js";
+import { FellowDatabase, NoteWrite } from "../src/database.js";
+import { seedIdentities } from "../src/identities.js";
+import { applyRetention, executePurge, normalizeRetention, planPurge } from "../src/retention.js";
+import { syncNotesFromApi } from "../src/sync.js";
+
+const tempDirs: string[] = [];
+
+afterEach(() => {
+  for (const dir of tempDirs.splice(0)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+function tempPath(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "fellow-retention-"));
+  tempDirs.push(dir);
+  return path.join(dir, "fellow.db");
+}
+
+function noteWrite(id: string, date: string, attendees: string[], content = "## Action items\n- [ ] @dana Send the deck"): NoteWrite {
+  return {
+    note: {
+      id,
+      title: `Meeting ${id}`,
+      created_at: date,
+      updated_at: date,
+      event_start: date,
+      event_end: null,
+      event_guid: null,
+      call_url: null,
+      content_markdown: content,
+    },
+    action_items: [
+      {
+        content: "Send the deck",
+        assignee: "dana",
+        due_date: null,
+        due_phrase: null,
+        is_completed: false,
+        section: "Action items",
+        source_line: 2,
+      },
+    ],
+    participants: attendees,
+  };
+}
+
+// Everything SQLite keeps on disk for the database, WAL included
+function fileContents(dbPath: string): string {
+  return [dbPath, `${dbPath}-wal`]
+    .filter((file) => fs.existsSync(file))
+    .map((file) => fs.readFileSync(file).toString("latin1"))
+    .join("");
+}
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+// Serves one page of notes and recordings, and single notes by ID
+function fakeClient(notes: Note[], recordings: Recording[]): FellowClient {
+  const client = {
+    listNotes: async () => ({ notes: { data: notes, page_info: { cursor: null, page_size: notes.length } } }),
+    listRecordings: async () => ({ recordings: { data: recordings, page_info: { cursor: null, page_size: recordings.length } } }),
+    getNote: async (id: string) => notes.find((note) => note.id === id)!,
+  };
+  return client as unknown as FellowClient;
+}
+
+function apiNote(id: string, date: string): Note {
+  return { id, title: `Meeting ${id}`, created_at: date, updated_at: date, event_start: date, content_markdown: "Notes" };
+}
+
+function apiRecording(id: string, noteId: string, date: string): Recording {
+  return {
+    id,
+    title: `Recording ${id}`,
+    note_id: noteId,
+    created_at: date,
+    updated_at: date,
+    recording_start: date,
+    transcript: { language_code: "en", speech_segments: [{ speaker: "Dana", text: "Hello", start_time: 0, end_time: 1 }] },
+  };
+}
+
+describe("normalizeRetention", () => {
+  it("keeps positive day counts and drops unset ones", () => {
+    assert.deepEqual(normalizeRetention({ note_days: "90", transcript_days: null }), { note_days: 90 });
+    assert.throws(() => normalizeRetention({ note_days: 0 }), /note_days must be a positive number/);
+    assert.throws(() => normalizeRetention([]), /must be an object/);
+  });
+});
+
+describe("applyRetention", () => {
+  it("doesn't let syncs bring back what the policy already removed", async () => {
+    const db = new FellowDatabase(tempPath());
+    const retention = { note_days: 30, transcript_days: 7 };
+    const client = fakeClient(
+      [apiNote("recent", daysAgo(1)), apiNote("older", daysAgo(10)), apiNote("expired", daysAgo(60))],
+      [
+        apiRecording("r-recent", "recent", daysAgo(1)),
+        apiRecording("r-older", "older", daysAgo(10)),
+        apiRecording("r-expired", "expired", daysAgo(60)),
+        apiRecording("r-standalone", "", daysAgo(60)),
+      ]
+    );
+
+    for (let run = 0; run < 2; run++) {
+      const result = await syncNotesFromApi(client, db, { includeTranscripts: true, retention });
+      assert.equal(result.notes_synced, 2);
+      assert.equal(result.notes_skipped_expired, 1);
+      assert.equal(result.recordings_skipped_expired, 2);
+      assert.deepEqual([result.notes_expired, result.recordings_expired, result.transcripts_expired], [0, 0, 0]);
+    }
+
+    assert.equal(db.getNote("expired"), null);
+    assert.equal(db.getRecording("r-expired"), null);
+    assert.equal(db.getRecording("r-standalone"), null);
+    assert.ok(db.getRecording("r-recent")?.transcript_json);
+    assert.equal(db.getRecording("r-older")?.transcript_json, null);
+    assert.deepEqual(applyRetention(db, retention), { notes_expired: 0, recordings_expired: 0, transcripts_expired: 0 });
+    db.close();
+  });
+
+  it("removes meetings and transcripts that aged out since they were cached", () => {
+    const db = new FellowDatabase(tempPath());
+    db.upsertNotesWithDetails([noteWrite("n1", "2024-05-01T10:00:00Z", []), noteWrite("n2", "2024-06-01T10:00:00Z", [])]);
+    db.upsertRecordings([
+      {
+        id: "r2",
+        note_id: "n2",
+        title: "Recording r2",
+        created_at: "2024-06-01T10:00:00Z",
+        updated_at: "2024-06-01T10:00:00Z",
+        event_start: null,
+        event_end: null,
+        recording_start: "2024-06-01T10:00:00Z",
+        recording_end: null,
+        event_guid: null,
+        call_url: null,
+        transcript_json: JSON.stringify({
+          language_code: "en",
+          speech_segments: [{ speaker: "Dana", text: "Hello", start_time: 0, end_time: 1 }],
+        }),
+      },
+    ]);
+    const now = new Date("2024-06-15T10:00:00Z");
+    const policy = { note_days: 30, transcript_days: 7 };
+    assert.deepEqual(applyRetention(db, policy, now), { notes_expired: 1, recordings_expired: 0, transcripts_expired: 1 });
+    assert.equal(db.getNote("n1"), null);
+    assert.ok(db.getNote("n2"));
+    assert.equal(db.getRecording("r2")?.transcript_json, null);
+    assert.deepEqual(db.getTranscriptSegments("r2"), []);
+    assert.deepEqual(applyRetention(db, policy, now), { notes_expired: 0, recordings_expired: 0, transcripts_expired: 0 });
+    db.close();
+  });
+});
+
+describe("planPurge", () => {
+  it("needs a criterion and narrows candidates by title", () => {
+    const db = new FellowDatabase(tempPath());
+    db.upsertNotesWithDetails([noteWrite("n1", "2024-05-01T10:00:00Z", []), noteWrite("n2", "2024-06-01T10:00:00Z", [])]);
+    assert.throws(() => planPurge(db, {}), /at least one of/);
+    assert.throws(() => planPurge(db, { title_pattern: "(" }), /Invalid title_pattern/);
+
+    const plan = planPurge(db, { title_pattern: "n2$", since: "2024-01-01" });
+    assert.deepEqual(
+      plan.notes.map((note) => note.id),
+      ["n2"]
+    );
+    assert.equal(plan.impact.action_items, 1);
+    db.close();
+  });
+});
+
+describe("executePurge", () => {
+  it("keeps purged meetings from coming back unless resyncing is allowed", async () => {
+    const db = new FellowDatabase(tempPath());
+    const client = fakeClient([apiNote("kept", daysAgo(1)), apiNote("purged", daysAgo(2))], []);
+    await syncNotesFromApi(client, db);
+
+    executePurge(db, planPurge(db, { note_ids: ["purged"] }));
+    let result = await syncNotesFromApi(client, db);
+    assert.equal(result.notes_skipped_purged, 1);
+    assert.equal(db.getNote("purged"), null);
+
+    db.upsertNotesWithDetails([noteWrite("resync", daysAgo(3), [])]);
+    executePurge(db, planPurge(db, { note_ids: ["resync"] }), { allowResync: true });
+    assert.equal(db.isPurged("resync"), false);
+    result = await syncNotesFromApi(fakeClient([apiNote("resync", daysAgo(3))], []), db);
+    assert.equal(result.notes_synced, 1);
+    assert.ok(db.getNote("resync"));
+    db.close();
+  });
+
+  it("leaves no trace of a forgotten participant in the database file", () => {
+    const dbPath = tempPath();
+    const db = new FellowDatabase(dbPath);
+    db.upsertNotesWithDetails([
+      noteWrite("n1", "2024-05-01T10:00:00Z", ["dana.whitfield@example.com", "sam@example.com"]),
+      noteWrite("n2", "2024-05-02T10:00:00Z", ["sam@example.com"], "Nothing to do"),
+    ]);
+    seedIdentities(db);
+    assert.equal(db.findPeople("dana.whitfield@example.com").length, 1);
+
+    const plan = planPurge(db, { participant_email: "dana.whitfield@example.com" });
+    assert.deepEqual(
+      plan.notes.map((note) => note.id),
+      ["n1"]
+    );
+    assert.equal(executePurge(db, plan, { forgetEmail: "dana.whitfield@example.com" }), true);
+    assert.equal(db.findPeople("dana.whitfield@example.com").length, 0);
+    assert.ok(db.getNote("n2"));
+    assert.ok(db.isPurged("n1"));
+    db.close();
+
+    const contents = fileContents(dbPath);
+    assert.ok(!contents.includes("dana.whitfield"));
+    assert.ok(!contents.includes("Whitfield"));
+  });
+});
@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import { setTimeout as delay } from "node:timers/promises";
+import { describe, it } from "node:test";
+import { SyncScheduler } from "../src/scheduler.js";
+import { emptySyncResult, SyncResult } from "../src/sync.js";
+
+// A sync that finishes when the test says so
+function deferredSync(): { run: () => Promise<SyncResult>; finish: () => void; runs: number; finished: boolean } {
+  const state = {
+    runs: 0,
+    finished: false,
+    finish: () => {},
+    run: () => {
+      state.runs++;
+      return new Promise<SyncResult>((resolve) => {
+        state.finish = () => {
+          state.finished = true;
+          resolve(emptySyncResult());
+        };
+      });
+    },
+  };
+  return state;
+}
+
+describe("SyncScheduler", () => {
+  it("joins a sync that is already running instead of starting another", async () => {
+    const sync = deferredSync();
+    const scheduler = new SyncScheduler(sync.run);
+    const first = scheduler.syncNow();
+    const second = scheduler.syncNow();
+    assert.equal(scheduler.getStatus().running, true);
+    await delay(0);
+    sync.finish();
+    assert.equal(await first, await second);
+    assert.equal(sync.runs, 1);
+    assert.equal(scheduler.getStatus().running, false);
+  });
+
+  it("runs exclusive work only after the sync in progress", async () => {
+    const sync = deferredSync();
+    const scheduler = new SyncScheduler(sync.run);
+    let sawSyncFinished: boolean | null = null;
+    const background = scheduler.syncNow();
+    const exclusive = scheduler.runExclusive(async () => {
+      sawSyncFinished = sync.finished;
+      return null;
+    });
+    await delay(0);
+    assert.equal(sawSyncFinished, null);
+    sync.finish();
+    await Promise.all([background, exclusive]);
+    assert.equal(sawSyncFinished, true);
+  });
+
+  it("records failures and keeps serving later syncs", async () => {
+    let fail = true;
+    const scheduler = new SyncScheduler(async () => {
+      if (fail) throw new Error("API down");
+      return emptySyncResult();
+    });
+    await assert.rejects(scheduler.syncNow(), /API down/);
+    assert.equal(scheduler.getStatus().last_error, "API down");
+
+    fail = false;
+    assert.deepEqual(await scheduler.syncNow(), emptySyncResult());
+    const status = scheduler.getStatus();
+    assert.equal(status.last_error, null);
+    assert.ok(status.last_run_finished_at);
+  });
+
+  it("syncs right away on start, then once per interval until stopped", async () => {
+    let runs = 0;
+    const scheduler = new SyncScheduler(async () => {
+      runs++;
+      return emptySyncResult();
+    });
+    scheduler.start(30);
+    assert.equal(scheduler.getStatus().enabled, true);
+    await delay(10);
+    assert.equal(runs, 1);
+    await delay(50);
+    assert.ok(runs >= 2);
+
+    scheduler.stop();
+    const stoppedAt = runs;
+    await delay(60);
+    assert.equal(runs, stoppedAt);
+    assert.equal(scheduler.getStatus().next_run_at, null);
+  });
+});
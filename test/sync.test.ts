@@ -0,0 +1,343 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, it } from "node:test";
+import { FellowApiError, FellowClient, Note, Recording } from "../src/client.js";
+import { FellowDatabase } from "../src/database.js";
+import { performIncrementalSync, SyncCancelledError, syncNotesFromApi, SyncProgress } from "../src/sync.js";
+
+const tempDirs: string[] = [];
+
+afterEach(() => {
+  for (const dir of tempDirs.splice(0)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+function tempDb(): FellowDatabase {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "fellow-sync-"));
+  tempDirs.push(dir);
+  return new FellowDatabase(path.join(dir, "fellow.db"));
+}
+
+function apiNote(id: string, date = "2024-05-01T10:00:00Z"): Note {
+  return { id, title: `Meeting ${id}`, created_at: date, updated_at: date, event_start: date, content_markdown: "Notes" };
+}
+
+function apiRecording(id: string, noteId: string, date = "2024-05-01T10:00:00Z"): Recording {
+  return { id, title: `Recording ${id}`, note_id: noteId, created_at: date, updated_at: date };
+}
+
+interface ListOptions {
+  cursor?: string;
+  updated_at_start?: string;
+  created_at_start?: string;
+  channel_id?: string;
+}
+
+interface FakeClient extends FellowClient {
+  // Note IDs looked up one by one
+  fetched: string[];
+  // Listing calls as "notes@<cursor>" or "recordings@<cursor>", the first page being @0
+  listed: string[];
+}
+
+/**
+ * Serves `notes` and `recordings` matching the listing's `updated_at_start`,
+ * `created_at_start` and `channel_id` (looked up in `channels` by ID) in pages
+ * of `pageSize` (one page by default), with cursors holding the next offset. `getNote` answers from
+ * `lookups`, or with a 404 for IDs it doesn't know. Any other cursor is
+ * rejected with a 400, as the API does for expired ones.
+ */
+function fakeClient(data: {
+  notes?: Note[];
+  recordings?: Recording[];
+  lookups?: Note[];
+  channels?: Record<string, string>;
+  pageSize?: number;
+}): FakeClient {
+  const notes = data.notes ?? [];
+  const recordings = data.recordings ?? [];
+  const pageSize = data.pageSize ?? Infinity;
+  const fetched: string[] = [];
+  const listed: string[] = [];
+  const page = <T extends { id: string; created_at: string; updated_at: string }>(kind: string, all: T[], options: ListOptions) => {
+    const { cursor, updated_at_start: since, created_at_start: createdSince, channel_id: channel } = options;
+    const items = all.filter(
+      (item) =>
+        (!since || item.updated_at >= since) &&
+        (!createdSince || item.created_at >= createdSince) &&
+        (!channel || data.channels?.[item.id] === channel)
+    );
+    listed.push(`${kind}@${cursor ?? 0}`);
+    const start = Number(cursor ?? 0);
+    if (!Number.isInteger(start)) {
+      throw new FellowApiError({ status: 400, method: "POST", endpoint: `/${kind}`, body: null, attempts: 1 });
+    }
+    const next = start + pageSize;
+    return { data: items.slice(start, next), page_info: { cursor: next < items.length ? String(next) : null, page_size: pageSize } };
+  };
+  const client = {
+    fetched,
+    listed,
+    listNotes: async (options: ListOptions) => ({ notes: page("notes", notes, options) }),
+    listRecordings: async (options: ListOptions) => ({
+      recordings: page("recordings", recordings, options),
+    }),
+    getNote: async (id: string) => {
+      fetched.push(id);
+      const note = data.lookups?.find((lookup) => lookup.id === id);
+      if (!note) {
+        throw new FellowApiError({ status: 404, method: "GET", endpoint: `/note/${id}`, body: null, attempts: 1 });
+      }
+      return note;
+    },
+  };
+  return client as unknown as FakeClient;
+}
+
+describe("syncNotesFromApi recordings", () => {
+  it("orphans a recording whose parent note was deleted in Fellow", async () => {
+    const db = tempDb();
+    await syncNotesFromApi(fakeClient({ notes: [apiNote("n1")] }), db);
+    db.markNotesDeleted(["n1"]);
+
+    const client = fakeClient({ recordings: [apiRecording("r1", "n1")] });
+    const result = await syncNotesFromApi(client, db);
+    assert.deepEqual(client.fetched, ["n1"]);
+    assert.equal(result.recordings_orphaned, 1);
+    assert.equal(result.recordings_synced, 0);
+    assert.equal(db.getRecording("r1"), null);
+    assert.ok(db.getNote("n1")?.deleted_at);
+    db.close();
+  });
+
+  it("restores a tombstoned parent note that Fellow still has", async () => {
+    const db = tempDb();
+    await syncNotesFromApi(fakeClient({ notes: [apiNote("n1")] }), db);
+    db.markNotesDeleted(["n1"]);
+
+    const result = await syncNotesFromApi(fakeClient({ recordings: [apiRecording("r1", "n1")], lookups: [apiNote("n1")] }), db);
+    assert.equal(result.recordings_recovered, 1);
+    assert.equal(db.getNote("n1")?.deleted_at, null);
+    assert.equal(db.getRecording("r1")?.note_id, "n1");
+    db.close();
+  });
+});
+
+describe("performIncrementalSync", () => {
+  it("reports a full sync when there was nothing to build on", async () => {
+    const db = tempDb();
+    const client = fakeClient({ notes: [apiNote("n1")] });
+    assert.equal((await performIncrementalSync(client, db))?.mode, "full");
+    assert.equal((await performIncrementalSync(client, db))?.mode, "incremental");
+    assert.equal((await performIncrementalSync(client, db, { scope: { exclude_title_patterns: ["standup"] } }))?.mode, "full");
+    db.close();
+  });
+});
+
+describe("syncNotesFromApi checkpoints", () => {
+  const notes = ["n1", "n2", "n3", "n4"].map((id) => apiNote(id));
+
+  it("resumes a cancelled sync from the last committed page", async () => {
+    const db = tempDb();
+    const controller = new AbortController();
+    const first = fakeClient({ notes, pageSize: 2 });
+    await assert.rejects(
+      syncNotesFromApi(first, db, { signal: controller.signal, onProgress: () => controller.abort() }),
+      SyncCancelledError
+    );
+    assert.deepEqual(first.listed, ["notes@0"]);
+    assert.deepEqual(db.getSyncCheckpoint()?.notes_cursor, "2");
+    assert.ok(db.getNote("n2"));
+    assert.equal(db.getNote("n3"), null);
+    assert.equal(db.getLastSyncTime(), null);
+
+    const second = fakeClient({ notes, pageSize: 2 });
+    const result = await syncNotesFromApi(second, db);
+    assert.equal(result.resumed, true);
+    assert.deepEqual(second.listed, ["notes@2", "recordings@0"]);
+    assert.equal(result.notes_synced, 2);
+    assert.ok(db.getNote("n4"));
+    assert.equal(db.getSyncCheckpoint(), null);
+    assert.ok(db.getLastSyncTime());
+    db.close();
+  });
+
+  it("restarts the phase when the saved cursor has expired", async () => {
+    const db = tempDb();
+    const controller = new AbortController();
+    await assert.rejects(
+      syncNotesFromApi(fakeClient({ notes, pageSize: 2 }), db, { signal: controller.signal, onProgress: () => controller.abort() })
+    );
+    db.setSyncCheckpoint({ ...db.getSyncCheckpoint()!, notes_cursor: "expired" });
+
+    const client = fakeClient({ notes, pageSize: 2 });
+    const result = await syncNotesFromApi(client, db);
+    assert.equal(result.resumed, true);
+    assert.deepEqual(client.listed, ["notes@expired", "notes@0", "notes@2", "recordings@0"]);
+    assert.equal(result.notes_synced, 4);
+    db.close();
+  });
+
+  it("starts over instead of resuming a checkpoint for another scope", async () => {
+    const db = tempDb();
+    const controller = new AbortController();
+    await assert.rejects(
+      syncNotesFromApi(fakeClient({ notes, pageSize: 2 }), db, { signal: controller.signal, onProgress: () => controller.abort() })
+    );
+
+    const client = fakeClient({ notes, pageSize: 2 });
+    const result = await syncNotesFromApi(client, db, { scope: { exclude_title_patterns: ["standup"] } });
+    assert.equal(result.resumed, false);
+    assert.deepEqual(client.listed, ["notes@0", "notes@2", "recordings@0"]);
+    db.close();
+  });
+
+  it("doesn't let a checkpoint without transcripts stand in for a sync with them", async () => {
+    const db = tempDb();
+    const controller = new AbortController();
+    await assert.rejects(
+      syncNotesFromApi(fakeClient({ notes, pageSize: 2 }), db, { signal: controller.signal, onProgress: () => controller.abort() })
+    );
+
+    const result = await syncNotesFromApi(fakeClient({ notes, pageSize: 2 }), db, { includeTranscripts: true });
+    assert.equal(result.resumed, false);
+    assert.equal(result.notes_synced, 4);
+    db.close();
+  });
+});
+
+describe("syncNotesFromApi reconciliation", () => {
+  it("tombstones deleted notes and recordings and re-points moved recordings", async () => {
+    const db = tempDb();
+    await syncNotesFromApi(
+      fakeClient({
+        notes: [apiNote("n1"), apiNote("n2"), apiNote("n3")],
+        recordings: [apiRecording("r1", "n1"), apiRecording("r2", "n2"), apiRecording("r3", "n3")],
+      }),
+      db
+    );
+
+    const result = await syncNotesFromApi(
+      fakeClient({ notes: [apiNote("n1"), apiNote("n3")], recordings: [apiRecording("r1", "n1"), apiRecording("r3", "n1")] }),
+      db,
+      // Nothing changed since, so only the reconciliation pass sees the deletions and the move
+      { reconcile: true, since: "2024-06-01T00:00:00Z" }
+    );
+    assert.equal(result.reconciled, true);
+    assert.deepEqual([result.notes_deleted, result.recordings_deleted, result.recordings_moved], [1, 1, 1]);
+    assert.ok(db.getNote("n2")?.deleted_at);
+    assert.ok(db.getRecording("r2")?.deleted_at);
+    assert.equal(db.getRecording("r3")?.note_id, "n1");
+    assert.equal(db.getNote("n1")?.deleted_at, null);
+    db.close();
+  });
+
+  it("brings a tombstoned note back when Fellow lists it again", async () => {
+    const db = tempDb();
+    await syncNotesFromApi(fakeClient({ notes: [apiNote("n1")] }), db);
+    await syncNotesFromApi(fakeClient({}), db, { reconcile: true });
+    assert.ok(db.getNote("n1")?.deleted_at);
+
+    await syncNotesFromApi(fakeClient({ notes: [apiNote("n1")] }), db);
+    assert.equal(db.getNote("n1")?.deleted_at, null);
+    db.close();
+  });
+
+  it("marks nothing when the listing is cut short", async () => {
+    const db = tempDb();
+    await syncNotesFromApi(fakeClient({ notes: [apiNote("n1"), apiNote("n2"), apiNote("n3")] }), db);
+
+    const controller = new AbortController();
+    const onProgress = (progress: SyncProgress) => {
+      if (progress.phase === "reconcile") controller.abort();
+    };
+    await assert.rejects(
+      syncNotesFromApi(fakeClient({ notes: [apiNote("n1")], pageSize: 1 }), db, {
+        reconcile: true,
+        signal: controller.signal,
+        onProgress,
+      }),
+      SyncCancelledError
+    );
+    assert.equal(db.getNote("n2")?.deleted_at, null);
+    assert.equal(db.getNote("n3")?.deleted_at, null);
+    db.close();
+  });
+});
+
+describe("syncNotesFromApi scopes", () => {
+  function daysAgo(days: number): string {
+    return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+  }
+
+  function attendedBy(note: Note, ...attendees: string[]): Note {
+    return { ...note, event_attendees: attendees };
+  }
+
+  it("removes cached meetings a narrower title or participant scope excludes", async () => {
+    const db = tempDb();
+    const notes = [
+      attendedBy({ ...apiNote("review"), title: "Design review" }, "dana@example.com"),
+      attendedBy({ ...apiNote("standup"), title: "Daily standup" }, "dana@example.com"),
+      attendedBy({ ...apiNote("planning"), title: "Planning" }, "sam@example.com"),
+    ];
+    const recordings = [apiRecording("r-review", "review"), { ...apiRecording("r-standup", "standup"), title: "Daily standup" }];
+    await syncNotesFromApi(fakeClient({ notes, recordings }), db);
+
+    const scope = { exclude_title_patterns: ["standup"], participants: ["dana@example.com"] };
+    const result = await performIncrementalSync(fakeClient({ notes, recordings }), db, { scope });
+    assert.equal(result?.scope_changed, true);
+    assert.equal(result?.mode, "full");
+    assert.deepEqual([result?.notes_pruned, result?.recordings_pruned], [2, 1]);
+    assert.deepEqual(
+      db.getAllNotes().map((note) => note.id),
+      ["review"]
+    );
+    assert.equal(db.getRecording("r-standup"), null);
+    assert.ok(db.getRecording("r-review"));
+    db.close();
+  });
+
+  it("drops meetings that age out of max_age_days unless a recording is still inside it", async () => {
+    const db = tempDb();
+    const notes = [apiNote("recent", daysAgo(1)), apiNote("old", daysAgo(60)), apiNote("old-recorded", daysAgo(60))];
+    const recordings = [apiRecording("r-recent", "old-recorded", daysAgo(1)), apiRecording("r-old", "old", daysAgo(60))];
+    await syncNotesFromApi(fakeClient({ notes, recordings }), db);
+
+    const result = await syncNotesFromApi(fakeClient({ notes, recordings }), db, { scope: { max_age_days: 30 } });
+    assert.deepEqual([result.notes_pruned, result.recordings_pruned], [1, 1]);
+    assert.equal(db.getNote("old"), null);
+    assert.equal(db.getRecording("r-old"), null);
+    assert.ok(db.getNote("old-recorded"));
+    assert.ok(db.getNote("recent"));
+    db.close();
+  });
+
+  it("removes meetings outside a newly scoped channel once", async () => {
+    const db = tempDb();
+    const notes = [apiNote("n-sales"), apiNote("n-eng")];
+    const recordings = [apiRecording("r-sales", "n-sales"), apiRecording("r-eng", "n-eng")];
+    const channels = { "n-sales": "sales", "r-sales": "sales", "n-eng": "eng", "r-eng": "eng" };
+    await syncNotesFromApi(fakeClient({ notes, recordings, channels }), db);
+
+    const scope = { channel_id: "sales" };
+    const first = fakeClient({ notes, recordings, channels });
+    const result = await performIncrementalSync(first, db, { scope });
+    assert.deepEqual([result?.notes_pruned, result?.recordings_pruned], [1, 1]);
+    assert.deepEqual(
+      db.getAllNotes().map((note) => note.id),
+      ["n-sales"]
+    );
+    assert.equal(db.getRecording("r-eng"), null);
+
+    const second = fakeClient({ notes, recordings, channels });
+    const next = await performIncrementalSync(second, db, { scope });
+    assert.equal(next?.scope_changed, false);
+    assert.equal(next?.mode, "incremental");
+    assert.deepEqual(second.listed, ["notes@0", "recordings@0"]);
+    db.close();
+  });
+});
@@ -0,0 +1,38 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Recording } from "../src/client.js";
+import { exportTranscript } from "../src/transcripts.js";
+
+const recording: Recording = {
+  id: "rec1",
+  title: "Weekly sync",
+  note_id: "note1",
+  created_at: "2024-05-01T15:00:00Z",
+  updated_at: "2024-05-01T16:00:00Z",
+  transcript: {
+    language_code: "en",
+    speech_segments: [
+      { speaker: "Dana", text: "First line\n\nsecond paragraph", start_time: 0, end_time: 2.5 },
+      { speaker: "Sam\nSmith", text: "Arrows --> like 00:00:01.000 --> 00:00:02.000", start_time: 2.5, end_time: 4 },
+    ],
+  },
+};
+
+describe("exportTranscript", () => {
+  it("keeps each WebVTT cue on one line", () => {
+    assert.equal(
+      exportTranscript(recording, "vtt"),
+      "WEBVTT\n\n" +
+        "1\n00:00:00.000 --> 00:00:02.500\n<v Dana>First line second paragraph</v>\n\n" +
+        "2\n00:00:02.500 --> 00:00:04.000\n<v Sam Smith>Arrows -&gt; like 00:00:01.000 -&gt; 00:00:02.000</v>\n\n"
+    );
+  });
+
+  it("keeps each SRT cue on one line", () => {
+    assert.equal(
+      exportTranscript(recording, "srt"),
+      "1\n00:00:00,000 --> 00:00:02,500\nDana: First line second paragraph\n\n" +
+        "2\n00:00:02,500 --> 00:00:04,000\nSam Smith: Arrows -> like 00:00:01.000 -> 00:00:02.000\n\n"
+    );
+  });
+});